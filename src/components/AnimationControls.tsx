@@ -1,16 +1,29 @@
-import { Play, Pause, RotateCcw, ChevronFirst, ChevronLast, Gauge } from 'lucide-react';
+import { PointerEvent, useRef, useState } from 'react';
+import { Play, Pause, RotateCcw, ChevronFirst, ChevronLast, Gauge, Clock } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import type { PlaybackMode } from '@/hooks/useSignAnimation';
+import type { FrameRange } from '@/lib/trim';
 
 interface AnimationControlsProps {
   isPlaying: boolean;
   currentFrame: number;
   totalFrames: number;
   fps: number;
+  maxFps?: number; // Top of the FPS slider; raised for recordings resampled above 30 fps
   onPlayPause: () => void;
   onReset: () => void;
   onFrameChange: (frame: number) => void;
   onFpsChange: (fps: number) => void;
+  playbackMode?: PlaybackMode;
+  canUseTimestamps?: boolean;
+  onPlaybackModeChange?: (mode: PlaybackMode) => void;
+  playbackSpeed?: number;
+  onPlaybackSpeedChange?: (speed: number) => void;
   disabled?: boolean;
+  trimRange?: FrameRange | null; // Proposed trim; frames outside it are shaded on the slider
+  selection?: FrameRange | null; // Frames picked for range edits, highlighted on the slider
+  onSelectionChange?: (range: FrameRange | null) => void; // Adds a strip under the slider to drag a selection on
 }
 
 const AnimationControls = ({
@@ -18,12 +31,61 @@ const AnimationControls = ({
   currentFrame,
   totalFrames,
   fps,
+  maxFps = 30,
   onPlayPause,
   onReset,
   onFrameChange,
   onFpsChange,
+  playbackMode = 'fps',
+  canUseTimestamps = false,
+  onPlaybackModeChange,
+  playbackSpeed = 1,
+  onPlaybackSpeedChange,
   disabled = false,
+  trimRange = null,
+  selection = null,
+  onSelectionChange,
 }: AnimationControlsProps) => {
+  const isRealTime = playbackMode === 'timestamps';
+  const lastFrame = Math.max(1, totalFrames - 1);
+  const stripRef = useRef<HTMLDivElement>(null);
+  // Frame the selection drag started on, and whether the pointer has left it yet
+  const [anchor, setAnchor] = useState<{ frame: number; moved: boolean } | null>(null);
+
+  const frameAt = (clientX: number) => {
+    const rect = stripRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    const frame = Math.round(((clientX - rect.left) / rect.width) * lastFrame);
+    return Math.max(0, Math.min(frame, totalFrames - 1));
+  };
+
+  const startSelecting = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setAnchor({ frame: frameAt(e.clientX), moved: false });
+  };
+
+  const moveSelecting = (e: PointerEvent<HTMLDivElement>) => {
+    if (!anchor) return;
+    const frame = frameAt(e.clientX);
+    if (frame === anchor.frame && !anchor.moved) return;
+    if (!anchor.moved) setAnchor({ ...anchor, moved: true });
+    onSelectionChange?.({ start: Math.min(anchor.frame, frame), end: Math.max(anchor.frame, frame) + 1 });
+  };
+
+  // A click without dragging selects the frame under it, or clears an existing selection
+  const endSelecting = () => {
+    if (anchor && !anchor.moved) {
+      onSelectionChange?.(selection ? null : { start: anchor.frame, end: anchor.frame + 1 });
+    }
+    setAnchor(null);
+  };
+
+  // Left edge and width of a range of frames on the slider track
+  const rangeStyle = ({ start, end }: FrameRange) => ({
+    left: `${(start / lastFrame) * 100}%`,
+    width: `${(Math.max(0, end - 1 - start) / lastFrame) * 100}%`,
+  });
+
   return (
     <div className="glass-panel p-3 sm:p-4 space-y-3 sm:space-y-4">
       {/* Progress bar */}
@@ -32,14 +94,50 @@ const AnimationControls = ({
           <span>Frame {currentFrame + 1}</span>
           <span>{totalFrames} total</span>
         </div>
-        <Slider
-          value={[currentFrame]}
-          max={Math.max(0, totalFrames - 1)}
-          step={1}
-          onValueChange={([value]) => onFrameChange(value)}
-          disabled={disabled || totalFrames === 0}
-          className="w-full"
-        />
+        <div className="relative">
+          <Slider
+            value={[currentFrame]}
+            max={Math.max(0, totalFrames - 1)}
+            step={1}
+            onValueChange={([value]) => onFrameChange(value)}
+            disabled={disabled || totalFrames === 0}
+            className="w-full"
+          />
+          {/* Frames a proposed trim would cut, drawn over the track */}
+          {trimRange && (
+            <>
+              <div
+                className="absolute left-0 top-1/2 -translate-y-1/2 h-2 rounded-l-full bg-destructive/50 pointer-events-none"
+                style={{ width: `${(trimRange.start / lastFrame) * 100}%` }}
+              />
+              <div
+                className="absolute right-0 top-1/2 -translate-y-1/2 h-2 rounded-r-full bg-destructive/50 pointer-events-none"
+                style={{ width: `${((lastFrame - (trimRange.end - 1)) / lastFrame) * 100}%` }}
+              />
+            </>
+          )}
+          {selection && (
+            <div
+              className="absolute top-1/2 -translate-y-1/2 h-2 min-w-1 rounded-full bg-primary/40 ring-1 ring-primary pointer-events-none"
+              style={rangeStyle(selection)}
+            />
+          )}
+        </div>
+        {onSelectionChange && (
+          <div
+            ref={stripRef}
+            className="relative h-3 rounded-sm bg-muted/40 cursor-crosshair touch-none"
+            onPointerDown={startSelecting}
+            onPointerMove={moveSelecting}
+            onPointerUp={endSelecting}
+            onPointerCancel={() => setAnchor(null)}
+            title="Drag to select frames"
+          >
+            {selection && (
+              <div className="absolute inset-y-0 min-w-1 rounded-sm bg-primary/60" style={rangeStyle(selection)} />
+            )}
+          </div>
+        )}
       </div>
 
       {/* Control buttons */}
@@ -87,22 +185,51 @@ const AnimationControls = ({
 
       {/* Speed Control */}
       <div className="space-y-1.5 sm:space-y-2 pt-2 border-t border-border/50">
+        {/* Real-time toggle - only for recordings that carry capture timestamps */}
+        {canUseTimestamps && onPlaybackModeChange && (
+          <div className="flex items-center justify-between text-[10px] sm:text-xs font-mono text-muted-foreground">
+            <div className="flex items-center gap-1 sm:gap-1.5">
+              <Clock className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+              <span>Real-time</span>
+            </div>
+            <Switch
+              checked={isRealTime}
+              onCheckedChange={(checked) => onPlaybackModeChange(checked ? 'timestamps' : 'fps')}
+              disabled={disabled}
+              className="scale-75"
+            />
+          </div>
+        )}
         <div className="flex items-center justify-between text-[10px] sm:text-xs font-mono text-muted-foreground">
           <div className="flex items-center gap-1 sm:gap-1.5">
             <Gauge className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
             <span>Speed</span>
           </div>
-          <span className="text-primary font-semibold">{fps} FPS</span>
+          <span className="text-primary font-semibold">
+            {isRealTime ? `${playbackSpeed}×` : `${fps} FPS`}
+          </span>
         </div>
-        <Slider
-          value={[fps]}
-          min={5}
-          max={30}
-          step={1}
-          onValueChange={([value]) => onFpsChange(value)}
-          disabled={disabled}
-          className="w-full"
-        />
+        {isRealTime ? (
+          <Slider
+            value={[playbackSpeed]}
+            min={0.25}
+            max={2}
+            step={0.25}
+            onValueChange={([value]) => onPlaybackSpeedChange?.(value)}
+            disabled={disabled}
+            className="w-full"
+          />
+        ) : (
+          <Slider
+            value={[fps]}
+            min={5}
+            max={maxFps}
+            step={1}
+            onValueChange={([value]) => onFpsChange(value)}
+            disabled={disabled}
+            className="w-full"
+          />
+        )}
         <div className="flex justify-between text-[10px] text-muted-foreground/60">
           <span>Slow</span>
           <span>Fast</span>
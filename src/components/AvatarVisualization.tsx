@@ -6,9 +6,10 @@ import { HandFrame } from '@/types/hand-data';
 
 interface AvatarVisualizationProps {
   frame: HandFrame | null;
+  showNonManuals?: boolean;
 }
 
-const Scene = ({ frame }: AvatarVisualizationProps) => {
+const Scene = ({ frame, showNonManuals = true }: AvatarVisualizationProps) => {
   return (
     <>
       <PerspectiveCamera makeDefault position={[0, 0.5, 4]} fov={50} />
@@ -45,13 +46,13 @@ const Scene = ({ frame }: AvatarVisualizationProps) => {
 
       {/* Avatar */}
       <Suspense fallback={null}>
-        <CartoonAvatar frame={frame} />
+        <CartoonAvatar frame={frame} showNonManuals={showNonManuals} />
       </Suspense>
     </>
   );
 };
 
-const AvatarVisualization = ({ frame }: AvatarVisualizationProps) => {
+const AvatarVisualization = ({ frame, showNonManuals = true }: AvatarVisualizationProps) => {
   return (
     <div className="w-full h-full rounded-xl overflow-hidden glass-panel">
       <Canvas
@@ -64,7 +65,7 @@ const AvatarVisualization = ({ frame }: AvatarVisualizationProps) => {
         <color attach="background" args={['#0a0f14']} />
         <fog attach="fog" args={['#0a0f14', 5, 15]} />
         <Suspense fallback={null}>
-          <Scene frame={frame} />
+          <Scene frame={frame} showNonManuals={showNonManuals} />
         </Suspense>
       </Canvas>
     </div>
@@ -0,0 +1,260 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { HandFrame } from '@/types/hand-data';
+import {
+  CSVValidationReport,
+  ColumnMapping,
+  MappingPreset,
+  ParsedCSV,
+  applyPreset,
+  deleteMappingPreset,
+  framesFromMapping,
+  isRequiredColumn,
+  loadMappingPresets,
+  parseCSVText,
+  saveMappingPreset,
+  schemaColumns,
+  suggestMapping,
+  validateCSV,
+} from '@/lib/codecs';
+
+interface CSVImportDialogProps {
+  file: File | null; // Dialog is open while a file is set
+  // Report for a file that already has our header, made while the worker parsed
+  // it; the dialog only shows it, and Import loads the parsed frames through
+  // onLoadAsIs instead of through a mapping
+  review?: CSVValidationReport;
+  onImport: (frames: HandFrame[], fileName: string) => void;
+  onLoadAsIs?: () => void;
+  onClose: () => void;
+}
+
+const UNMAPPED = '__unmapped__';
+
+const CSVImportDialog = ({ file, review, onImport, onLoadAsIs, onClose }: CSVImportDialogProps) => {
+  const matchesSchema = review !== undefined;
+  const [parsed, setParsed] = useState<ParsedCSV | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [presets, setPresets] = useState<MappingPreset[]>(loadMappingPresets);
+  const [presetName, setPresetName] = useState('');
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    setParsed(null);
+    if (!file || review) return;
+    let cancelled = false;
+    file.text().then((text) => {
+      if (cancelled) return;
+      const result = parseCSVText(text);
+      setParsed(result);
+      setMapping(suggestMapping(result.fields));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, review]);
+
+  const report = useMemo(() => review ?? (parsed ? validateCSV(parsed, mapping) : null), [review, parsed, mapping]);
+
+  const visibleColumns = useMemo(
+    () => schemaColumns().filter((c) => showAll || c === 'label' || c === 'timestamp' || (isRequiredColumn(c) && !mapping[c])),
+    [showAll, mapping]
+  );
+
+  const setColumn = (column: string, source: string) => {
+    setMapping((m) => {
+      const next = { ...m };
+      if (source === UNMAPPED) {
+        delete next[column];
+      } else {
+        next[column] = source;
+      }
+      return next;
+    });
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setPresets(saveMappingPreset({ name, mapping }));
+    setPresetName('');
+  };
+
+  const importFrames = () => {
+    if (!file || !report?.canImport) return;
+    if (matchesSchema) {
+      onLoadAsIs?.();
+      return;
+    }
+    if (!parsed) return;
+    onImport(framesFromMapping(parsed, mapping), file.name);
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import {file?.name}</DialogTitle>
+          <DialogDescription>
+            {matchesSchema
+              ? 'Some values in this file look wrong. Check the report before loading.'
+              : "This file's columns don't match the recording layout. Check the report and map its columns before loading."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!report ? (
+          <p className="text-sm text-muted-foreground">Reading file...</p>
+        ) : (
+          <div className="space-y-4">
+            {/* Validation report */}
+            <div className="rounded-lg border border-border p-3 space-y-1.5 text-sm">
+              <div className="flex items-center gap-2 font-medium">
+                {report.canImport ? (
+                  <CheckCircle2 className="w-4 h-4 text-secondary" />
+                ) : (
+                  <AlertTriangle className="w-4 h-4 text-destructive" />
+                )}
+                {report.rowCount} rows
+                {parsed && `, ${parsed.fields.length} columns`}
+              </div>
+              {!matchesSchema && !mapping.label && <p className="text-destructive">No column is mapped to the sign label.</p>}
+              {report.missing.length > 0 && (
+                <p className="text-muted-foreground">
+                  {report.missing.length} landmark columns unmapped; they load as untracked.
+                </p>
+              )}
+              {!matchesSchema && report.extra.length > 0 && (
+                <p className="text-muted-foreground">
+                  Ignored columns: <span className="font-mono">{report.extra.slice(0, 8).join(', ')}</span>
+                  {report.extra.length > 8 && ` and ${report.extra.length - 8} more`}
+                </p>
+              )}
+              {report.mismatchedRows.length > 0 && (
+                <p className="text-destructive">
+                  Wrong number of cells on row {report.mismatchedRows.slice(0, 5).join(', ')}
+                  {report.mismatchedRows.length > 5 && ` and ${report.mismatchedRows.length - 5} more`}
+                </p>
+              )}
+              {report.nonNumeric.count > 0 && (
+                <p className="text-destructive">
+                  {report.nonNumeric.count} non-numeric cells, e.g.{' '}
+                  {report.nonNumeric.examples.map((c) => `row ${c.row} ${c.column} "${c.value}"`).join('; ')}
+                </p>
+              )}
+              {report.outOfRange.count > 0 && (
+                <p className="text-muted-foreground">
+                  {report.outOfRange.count} values outside 0–1, e.g.{' '}
+                  {report.outOfRange.examples.map((c) => `row ${c.row} ${c.column} = ${c.value}`).join('; ')}
+                </p>
+              )}
+            </div>
+
+            {!matchesSchema && (
+              <>
+                {/* Presets */}
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="space-y-1">
+                    <Label>Preset</Label>
+                    <Select
+                      value=""
+                      onValueChange={(name) => {
+                        const preset = presets.find((p) => p.name === name);
+                        if (preset && parsed) setMapping(applyPreset(preset, parsed.fields));
+                      }}
+                      disabled={presets.length === 0}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue placeholder={presets.length ? 'Apply preset' : 'No saved presets'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {presets.map((p) => (
+                          <SelectItem key={p.name} value={p.name}>{p.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="w-44"
+                    placeholder="Preset name"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                  />
+                  <Button variant="outline" size="sm" onClick={savePreset} disabled={!presetName.trim()}>
+                    Save mapping
+                  </Button>
+                  {presets.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {presets.map((p) => (
+                        <Button
+                          key={p.name}
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => setPresets(deleteMappingPreset(p.name))}
+                          title={`Delete preset ${p.name}`}
+                        >
+                          <Trash2 className="w-3 h-3 mr-1" />
+                          {p.name}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Column mapping */}
+                <div className="flex items-center justify-between">
+                  <Label>Column mapping</Label>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="show-all-columns" className="text-xs text-muted-foreground">All columns</Label>
+                    <Switch id="show-all-columns" checked={showAll} onCheckedChange={setShowAll} />
+                  </div>
+                </div>
+                <ScrollArea className="h-56 rounded-lg border border-border">
+                  <div className="p-2 space-y-1">
+                    {visibleColumns.map((column) => (
+                      <div key={column} className="grid grid-cols-2 items-center gap-2">
+                        <span className="text-xs font-mono">{column}</span>
+                        <Select value={mapping[column] ?? UNMAPPED} onValueChange={(source) => setColumn(column, source)}>
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                            {parsed?.fields.map((field) => (
+                              <SelectItem key={field} value={field}>{field}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={importFrames} disabled={!report?.canImport}>Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CSVImportDialog;
@@ -1,13 +1,19 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { Camera, Square, Download, Play, Loader2, User } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { HandFrame } from '@/types/hand-data';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 import Avatar3D from './Avatar3D';
+import { encodeRecording, getCodec, RecordingMetadata } from '@/lib/codecs';
+import { downloadBlob } from '@/lib/download';
+import { BodyTracks, DEFAULT_BODY_TRACKS, isHolisticResults, resultsToFrame } from '@/lib/mediapipe-results';
+import { detectSignBounds, trimFrames } from '@/lib/trim';
 
 interface CameraCaptureProps {
-  onFramesCaptured: (frames: HandFrame[], label: string) => void;
+  onFramesCaptured: (frames: HandFrame[], label: string, metadata: RecordingMetadata) => void;
   onClose: () => void;
 }
 
@@ -22,11 +28,21 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
   const [error, setError] = useState<string | null>(null);
   const [showAvatarPreview, setShowAvatarPreview] = useState(true);
   const [currentFrame, setCurrentFrame] = useState<HandFrame | null>(null);
+  const [bodyTracks, setBodyTracks] = useState<BodyTracks>(DEFAULT_BODY_TRACKS);
+  const [isHolistic, setIsHolistic] = useState(false);
+  // Cut the hands-down time before and after the sign from the finished take
+  const [autoTrim, setAutoTrim] = useState(false);
   
   const handsRef = useRef<any>(null);
   const animationRef = useRef<number | null>(null);
   const recordingRef = useRef(false);
   const framesRef = useRef<HandFrame[]>([]);
+  const recordStartRef = useRef<number>(0);
+  // Read by the results callback, which MediaPipe holds on to from the first render
+  const bodyTracksRef = useRef<BodyTracks>(DEFAULT_BODY_TRACKS);
+  // Capture details saved into the recording's metadata
+  const deviceLabelRef = useRef<string | undefined>(undefined);
+  const modelRef = useRef<RecordingMetadata['model']>(undefined);
 
   // Initialize camera
   useEffect(() => {
@@ -42,6 +58,8 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
           }
         });
         
+        deviceLabelRef.current = stream.getVideoTracks()[0]?.label || undefined;
+
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
           await videoRef.current.play();
@@ -115,7 +133,9 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
           });
 
           handsRef.current = holistic;
+          modelRef.current = { name: 'MediaPipe Holistic', version: '0.5.1675471629' };
           console.log('MediaPipe Holistic loaded successfully');
+          setIsHolistic(true);
           setIsMediaPipeReady(true);
         } catch (holisticErr) {
           console.error('MediaPipe Holistic load error, falling back to Hands:', holisticErr);
@@ -148,6 +168,7 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
           });
 
           handsRef.current = hands;
+          modelRef.current = { name: 'MediaPipe Hands', version: '0.4.1675469240' };
           console.log('MediaPipe Hands loaded (fallback)');
           setIsMediaPipeReady(true);
         }
@@ -173,37 +194,18 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
     ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
     ctx.drawImage(videoRef.current, 0, 0, canvasRef.current.width, canvasRef.current.height);
 
-    // Initialize empty landmarks
-    let leftHandLandmarks: [number, number, number][] = Array(21).fill([0, 0, 0]);
-    let rightHandLandmarks: [number, number, number][] = Array(21).fill([0, 0, 0]);
-    let leftArm: { shoulder: [number, number, number]; elbow: [number, number, number]; wrist: [number, number, number] } | undefined;
-    let rightArm: { shoulder: [number, number, number]; elbow: [number, number, number]; wrist: [number, number, number] } | undefined;
+    // Landmark data uses the same conversion as offline MediaPipe imports;
+    // the branches below only draw the overlay
+    const tracked = resultsToFrame(results, bodyTracksRef.current);
 
     // Check if this is Holistic results (has poseLandmarks) or Hands-only results
-    const isHolistic = results.poseLandmarks !== undefined;
-
-    if (isHolistic) {
-      // Process Holistic results - extract pose landmarks for arms
+    if (isHolisticResults(results)) {
+      // Holistic results - draw arms from pose landmarks
       const poseLandmarks = results.poseLandmarks;
       
-      // MediaPipe Holistic naming convention:
-      // - "left" in MediaPipe = the person's actual left side (appears on RIGHT of camera view)
-      // - "right" in MediaPipe = the person's actual right side (appears on LEFT of camera view)
-      // 
-      // After mirroring (1.0 - x), the avatar's left side should match user's left side
-      // So: MediaPipe leftHand -> avatar leftHand, MediaPipe rightHand -> avatar rightHand
-      // But arm indices: 11,13,15 = MediaPipe "left" side, 12,14,16 = MediaPipe "right" side
-      
       if (poseLandmarks && poseLandmarks.length > 0) {
         // MediaPipe "left" arm (indices 11, 13, 15) = user's actual left arm
-        // This should connect to leftHandLandmarks
         if (poseLandmarks[11] && poseLandmarks[13] && poseLandmarks[15]) {
-          leftArm = {
-            shoulder: [1.0 - poseLandmarks[11].x, poseLandmarks[11].y, poseLandmarks[11].z],
-            elbow: [1.0 - poseLandmarks[13].x, poseLandmarks[13].y, poseLandmarks[13].z],
-            wrist: [1.0 - poseLandmarks[15].x, poseLandmarks[15].y, poseLandmarks[15].z],
-          };
-          
           // Draw left arm on canvas (cyan to match left hand)
           ctx.strokeStyle = '#00d4ff';
           ctx.lineWidth = 3;
@@ -215,14 +217,7 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
         }
         
         // MediaPipe "right" arm (indices 12, 14, 16) = user's actual right arm
-        // This should connect to rightHandLandmarks
         if (poseLandmarks[12] && poseLandmarks[14] && poseLandmarks[16]) {
-          rightArm = {
-            shoulder: [1.0 - poseLandmarks[12].x, poseLandmarks[12].y, poseLandmarks[12].z],
-            elbow: [1.0 - poseLandmarks[14].x, poseLandmarks[14].y, poseLandmarks[14].z],
-            wrist: [1.0 - poseLandmarks[16].x, poseLandmarks[16].y, poseLandmarks[16].z],
-          };
-          
           // Draw right arm on canvas (green to match right hand)
           ctx.strokeStyle = '#00ff88';
           ctx.lineWidth = 3;
@@ -247,9 +242,6 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
           ctx.fillStyle = color;
           ctx.fill();
         });
-
-        // Mirror X for avatar display
-        leftHandLandmarks = landmarks.map((lm: any) => [1.0 - lm.x, lm.y, lm.z]);
       }
 
       // MediaPipe rightHandLandmarks = user's actual right hand  
@@ -265,9 +257,6 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
           ctx.fillStyle = color;
           ctx.fill();
         });
-
-        // Mirror X for avatar display
-        rightHandLandmarks = landmarks.map((lm: any) => [1.0 - lm.x, lm.y, lm.z]);
       }
     } else {
       // Original Hands-only processing
@@ -302,14 +291,6 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
             ctx.lineTo(landmarks[end].x * canvasRef.current!.width, landmarks[end].y * canvasRef.current!.height);
             ctx.stroke();
           });
-
-          const landmarkData: [number, number, number][] = landmarks.map((lm: any) => [1.0 - lm.x, lm.y, lm.z]);
-
-          if (handedness === 'Right') {
-            leftHandLandmarks = landmarkData;
-          } else {
-            rightHandLandmarks = landmarkData;
-          }
         });
       }
     }
@@ -317,29 +298,30 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
     ctx.restore();
 
     // Create current frame for live preview
-    const liveFrame: HandFrame = {
-      label: signLabel || 'Live',
-      leftHand: leftHandLandmarks,
-      rightHand: rightHandLandmarks,
-      leftArm,
-      rightArm,
-    };
+    const liveFrame: HandFrame = { label: signLabel || 'Live', ...tracked };
     setCurrentFrame(liveFrame);
 
     // Record frame if recording
     if (recordingRef.current) {
       const frame: HandFrame = {
         label: signLabel || 'Recorded',
-        leftHand: leftHandLandmarks,
-        rightHand: rightHandLandmarks,
-        leftArm,
-        rightArm,
+        // MediaPipe delivers results at a variable rate, so keep the real capture time
+        t: performance.now() - recordStartRef.current,
+        ...tracked,
       };
       framesRef.current.push(frame);
       setRecordedFrames([...framesRef.current]);
     }
   }, [signLabel]);
 
+  // Iris points (refineFaceLandmarks) only matter when the face is being kept
+  useEffect(() => {
+    bodyTracksRef.current = bodyTracks;
+    if (isHolistic && handsRef.current) {
+      handsRef.current.setOptions({ refineFaceLandmarks: bodyTracks.face !== 'off' });
+    }
+  }, [bodyTracks, isHolistic]);
+
   // Detection loop
   useEffect(() => {
     if (!isMediaPipeReady || !isCameraReady) return;
@@ -367,6 +349,7 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
   const startRecording = () => {
     framesRef.current = [];
     setRecordedFrames([]);
+    recordStartRef.current = performance.now();
     recordingRef.current = true;
     setIsRecording(true);
   };
@@ -376,69 +359,35 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
     setIsRecording(false);
   };
 
+  // Frames kept from the take; captures are timestamped, so the fps argument is only a fallback
+  const trimBounds = useMemo(
+    () => (autoTrim && !isRecording ? detectSignBounds(recordedFrames, 30) : null),
+    [autoTrim, isRecording, recordedFrames]
+  );
+  const outputFrames = useMemo(
+    () => (trimBounds ? trimFrames(recordedFrames, trimBounds) : recordedFrames),
+    [trimBounds, recordedFrames]
+  );
+
   const downloadCSV = () => {
-    if (recordedFrames.length === 0) return;
+    if (outputFrames.length === 0) return;
 
-    // Generate CSV header with arm data
-    let header = 'label';
-    for (let i = 0; i < 21; i++) {
-      header += `,L_x${i},L_y${i},L_z${i}`;
-    }
-    for (let i = 0; i < 21; i++) {
-      header += `,R_x${i},R_y${i},R_z${i}`;
-    }
-    // Add arm headers
-    header += ',LA_shoulder_x,LA_shoulder_y,LA_shoulder_z';
-    header += ',LA_elbow_x,LA_elbow_y,LA_elbow_z';
-    header += ',LA_wrist_x,LA_wrist_y,LA_wrist_z';
-    header += ',RA_shoulder_x,RA_shoulder_y,RA_shoulder_z';
-    header += ',RA_elbow_x,RA_elbow_y,RA_elbow_z';
-    header += ',RA_wrist_x,RA_wrist_y,RA_wrist_z';
-
-    // Generate CSV rows
-    const rows = recordedFrames.map(frame => {
-      let row = frame.label;
-      frame.leftHand.forEach(([x, y, z]) => {
-        row += `,${x},${y},${z}`;
-      });
-      frame.rightHand.forEach(([x, y, z]) => {
-        row += `,${x},${y},${z}`;
-      });
-      
-      // Add left arm data
-      if (frame.leftArm) {
-        row += `,${frame.leftArm.shoulder[0]},${frame.leftArm.shoulder[1]},${frame.leftArm.shoulder[2]}`;
-        row += `,${frame.leftArm.elbow[0]},${frame.leftArm.elbow[1]},${frame.leftArm.elbow[2]}`;
-        row += `,${frame.leftArm.wrist[0]},${frame.leftArm.wrist[1]},${frame.leftArm.wrist[2]}`;
-      } else {
-        row += ',0,0,0,0,0,0,0,0,0';
-      }
-      
-      // Add right arm data
-      if (frame.rightArm) {
-        row += `,${frame.rightArm.shoulder[0]},${frame.rightArm.shoulder[1]},${frame.rightArm.shoulder[2]}`;
-        row += `,${frame.rightArm.elbow[0]},${frame.rightArm.elbow[1]},${frame.rightArm.elbow[2]}`;
-        row += `,${frame.rightArm.wrist[0]},${frame.rightArm.wrist[1]},${frame.rightArm.wrist[2]}`;
-      } else {
-        row += ',0,0,0,0,0,0,0,0,0';
-      }
-      
-      return row;
-    });
-
-    const csvContent = header + '\n' + rows.join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${signLabel || 'recording'}_sign_data.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+    const codec = getCodec('csv');
+    downloadBlob(encodeRecording('csv', { frames: outputFrames }), `${signLabel || 'recording'}_sign_data${codec.extensions[0]}`);
+  };
+
+  const captureMetadata = (): RecordingMetadata => {
+    const duration = outputFrames[outputFrames.length - 1]?.t ?? 0;
+    return {
+      captureDevice: deviceLabelRef.current,
+      sourceFps: duration > 0 ? Math.round(((outputFrames.length - 1) / duration) * 1000 * 10) / 10 : undefined,
+      model: modelRef.current,
+    };
   };
 
   const useRecording = () => {
-    if (recordedFrames.length > 0) {
-      onFramesCaptured(recordedFrames, signLabel || 'Recorded');
+    if (outputFrames.length > 0) {
+      onFramesCaptured(outputFrames, signLabel || 'Recorded', captureMetadata());
       onClose();
     }
   };
@@ -484,6 +433,42 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
         />
       </div>
 
+      {/* Optional Holistic tracks */}
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Switch
+            checked={bodyTracks.pose}
+            disabled={!isHolistic || isRecording}
+            onCheckedChange={(pose) => setBodyTracks((t) => ({ ...t, pose }))}
+          />
+          Body pose
+        </label>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          Face
+          <Select
+            value={bodyTracks.face}
+            disabled={!isHolistic || isRecording}
+            onValueChange={(face) => setBodyTracks((t) => ({ ...t, face: face as BodyTracks['face'] }))}
+          >
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Off</SelectItem>
+              <SelectItem value="keypoints">Key points</SelectItem>
+              <SelectItem value="mesh">Full mesh</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-muted-foreground" title="Detect where the sign starts and ends and drop the idle frames around it">
+          <Switch checked={autoTrim} onCheckedChange={setAutoTrim} />
+          Auto-trim idle
+        </label>
+        {isMediaPipeReady && !isHolistic && (
+          <span className="text-xs text-muted-foreground">Pose and face need MediaPipe Holistic</span>
+        )}
+      </div>
+
       {/* Video and Avatar Preview */}
       <div className={`grid gap-3 ${showAvatarPreview ? 'grid-cols-2' : 'grid-cols-1'}`}>
         {/* Camera Feed */}
@@ -519,6 +504,7 @@ const CameraCapture = ({ onFramesCaptured, onClose }: CameraCaptureProps) => {
 
           <div className="absolute bottom-3 right-3 bg-black/70 px-2 py-1 rounded text-xs text-white">
             {recordedFrames.length} frames
+            {trimBounds && outputFrames.length < recordedFrames.length && ` → ${outputFrames.length} trimmed`}
           </div>
           
           <div className="absolute top-3 right-3 bg-black/70 px-2 py-1 rounded text-xs text-white">
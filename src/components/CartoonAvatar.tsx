@@ -1,9 +1,11 @@
 import { useMemo } from 'react';
 import * as THREE from 'three';
-import { HandFrame, isHandVisible } from '@/types/hand-data';
+import { HandFrame, isHandVisible, isArmTracked, isLandmarkConfident } from '@/types/hand-data';
+import { solveFaceExpression, solveHeadPose } from '@/lib/face';
 
 interface CartoonAvatarProps {
   frame: HandFrame | null;
+  showNonManuals?: boolean; // Turn the head and animate the face from the face/pose tracks
 }
 
 // Body proportions
@@ -33,6 +35,9 @@ const COLORS = {
   shoes: "#333333",
   joint: "#f0d0c0",
   fingerTip: "#f5c4b8",
+  features: "#333",
+  eyeWhite: "#f8f8f8",
+  mouth: "#5a2a2a",
 };
 
 // Finger segment connections (landmark indices)
@@ -103,19 +108,25 @@ const Finger = ({
   wristPos,
   handScale,
   color,
+  confidence,
 }: {
   landmarks: THREE.Vector3[];
   segments: number[][];
   wristPos: THREE.Vector3;
   handScale: number;
   color: string;
+  confidence?: number[];
 }) => {
+  const tipIndex = segments[segments.length - 1][1];
+
   return (
     <>
       {segments.slice(1).map(([start, end], idx) => {
         const startPos = landmarks[start];
         const endPos = landmarks[end];
         if (!startPos || !endPos) return null;
+        // Don't draw segments whose joints weren't tracked
+        if (!isLandmarkConfident(confidence, start) || !isLandmarkConfident(confidence, end)) return null;
         
         // Taper the finger radius from base to tip
         const taperFactor = 1 - (idx * 0.15);
@@ -129,9 +140,9 @@ const Finger = ({
         );
       })}
       {/* Fingertip */}
-      {landmarks[segments[segments.length - 1][1]] && (
+      {landmarks[tipIndex] && isLandmarkConfident(confidence, tipIndex) && (
         <Joint 
-          position={landmarks[segments[segments.length - 1][1]]} 
+          position={landmarks[tipIndex]} 
           radius={BODY.fingerJointRadius * handScale * 0.8} 
           color={COLORS.fingerTip} 
         />
@@ -221,10 +232,12 @@ const PalmMesh = ({
 // Hand with fingers component
 const HandWithFingers = ({
   landmarks,
+  confidence,
   wristPos,
   isVisible,
 }: {
   landmarks: [number, number, number][] | null;
+  confidence?: number[];
   wristPos: THREE.Vector3;
   isVisible: boolean;
 }) => {
@@ -273,8 +286,10 @@ const HandWithFingers = ({
 
   return (
     <group>
-      {/* Palm mesh */}
-      <PalmMesh landmarks={lms} color={COLORS.skin} />
+      {/* Palm mesh - only when every palm joint was tracked */}
+      {[0, 1, 5, 9, 13, 17].every((i) => isLandmarkConfident(confidence, i)) && (
+        <PalmMesh landmarks={lms} color={COLORS.skin} />
+      )}
       
       {/* Wrist joint */}
       <Joint position={wristPos} radius={BODY.handRadius * 0.5} color={COLORS.skin} />
@@ -286,6 +301,7 @@ const HandWithFingers = ({
         wristPos={wristPos} 
         handScale={handScale} 
         color={COLORS.skin} 
+        confidence={confidence}
       />
       <Finger 
         landmarks={lms} 
@@ -293,6 +309,7 @@ const HandWithFingers = ({
         wristPos={wristPos} 
         handScale={handScale} 
         color={COLORS.skin} 
+        confidence={confidence}
       />
       <Finger 
         landmarks={lms} 
@@ -300,6 +317,7 @@ const HandWithFingers = ({
         wristPos={wristPos} 
         handScale={handScale} 
         color={COLORS.skin} 
+        confidence={confidence}
       />
       <Finger 
         landmarks={lms} 
@@ -307,6 +325,7 @@ const HandWithFingers = ({
         wristPos={wristPos} 
         handScale={handScale} 
         color={COLORS.skin} 
+        confidence={confidence}
       />
       <Finger 
         landmarks={lms} 
@@ -314,11 +333,98 @@ const HandWithFingers = ({
         wristPos={wristPos} 
         handScale={handScale} 
         color={COLORS.skin} 
+        confidence={confidence}
       />
     </group>
   );
 };
 
+// Head that follows the recorded head orientation and expression; recordings
+// without face or pose tracks, or with non-manuals hidden, keep the static smiling face
+const CartoonHead = ({
+  position,
+  frame,
+  showNonManuals,
+}: {
+  position: THREE.Vector3;
+  frame: HandFrame | null;
+  showNonManuals: boolean;
+}) => {
+  const headPose = useMemo(() => (showNonManuals ? solveHeadPose(frame) : null), [frame, showNonManuals]);
+  const expression = useMemo(() => (showNonManuals ? solveFaceExpression(frame) : null), [frame, showNonManuals]);
+
+  const rotation = useMemo(
+    () => new THREE.Euler(headPose?.pitch ?? 0, headPose?.yaw ?? 0, headPose?.roll ?? 0, 'YXZ'),
+    [headPose]
+  );
+
+  const surface = BODY.headRadius * 0.85;
+  const browLift = (expression?.browRaise ?? 0) * 0.015;
+  // Inner ends dip when furrowed and lift when raised
+  const browTilt = (expression?.browRaise ?? 0) * 0.25;
+  const mouthOpen = expression?.mouthOpen ?? 0;
+  // Pupil offset within the eye white while the iris points are tracked
+  const gaze = expression?.gaze;
+  const pupilOffset = gaze ? ([gaze.x * 0.008, gaze.y * 0.006, 0.012] as const) : null;
+
+  return (
+    <group position={position} rotation={rotation}>
+      <mesh>
+        <sphereGeometry args={[BODY.headRadius, 24, 24]} />
+        <meshStandardMaterial color={COLORS.skin} roughness={0.5} metalness={0.1} />
+      </mesh>
+
+      {/* Eyes: whites with pupils that follow the gaze, or plain dots */}
+      {[-0.04, 0.04].map((x) =>
+        pupilOffset ? (
+          <group key={x} position={[x, 0.02, surface]}>
+            <mesh>
+              <sphereGeometry args={[0.022, 12, 12]} />
+              <meshStandardMaterial color={COLORS.eyeWhite} roughness={0.3} />
+            </mesh>
+            <mesh position={[...pupilOffset]}>
+              <sphereGeometry args={[0.011, 12, 12]} />
+              <meshStandardMaterial color={COLORS.features} roughness={0.3} />
+            </mesh>
+          </group>
+        ) : (
+          <mesh key={x} position={[x, 0.02, surface]}>
+            <sphereGeometry args={[0.02, 12, 12]} />
+            <meshStandardMaterial color={COLORS.features} roughness={0.3} />
+          </mesh>
+        )
+      )}
+
+      {/* Eyebrows - only with a face track to drive them */}
+      {expression && (
+        <>
+          <mesh position={[-0.045, 0.055 + browLift, surface + 0.005]} rotation={[0, 0, -browTilt]}>
+            <boxGeometry args={[0.04, 0.008, 0.008]} />
+            <meshStandardMaterial color={COLORS.features} roughness={0.3} />
+          </mesh>
+          <mesh position={[0.045, 0.055 + browLift, surface + 0.005]} rotation={[0, 0, browTilt]}>
+            <boxGeometry args={[0.04, 0.008, 0.008]} />
+            <meshStandardMaterial color={COLORS.features} roughness={0.3} />
+          </mesh>
+        </>
+      )}
+
+      {/* Mouth: open oval while speaking or mouthing, otherwise the smile */}
+      {mouthOpen > 0.05 ? (
+        <mesh position={[0, -0.045, BODY.headRadius * 0.9]} scale={[1, 0.3 + mouthOpen, 0.3]}>
+          <sphereGeometry args={[0.03, 16, 12]} />
+          <meshStandardMaterial color={COLORS.mouth} roughness={0.6} />
+        </mesh>
+      ) : (
+        <mesh position={[0, -0.03, BODY.headRadius * 0.9]}>
+          <torusGeometry args={[0.04, 0.008, 8, 16, Math.PI]} />
+          <meshStandardMaterial color={COLORS.features} roughness={0.3} />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
 // Normalize landmarks for positioning
 const normalizeLandmarks = (
   landmarks: [number, number, number][],
@@ -337,15 +443,13 @@ const normalizeLandmarks = (
   return new THREE.Vector3(x, y, z);
 };
 
-const CartoonAvatar = ({ frame }: CartoonAvatarProps) => {
-  const leftHandVisible = frame?.leftHand ? isHandVisible(frame.leftHand) : false;
-  const rightHandVisible = frame?.rightHand ? isHandVisible(frame.rightHand) : false;
+const CartoonAvatar = ({ frame, showNonManuals = true }: CartoonAvatarProps) => {
+  const leftHandVisible = frame?.leftHand ? isHandVisible(frame.leftHand, frame.leftConfidence) : false;
+  const rightHandVisible = frame?.rightHand ? isHandVisible(frame.rightHand, frame.rightConfidence) : false;
   
-  // Check if we have tracked arm data
-  const hasLeftArmData = frame?.leftArm && 
-    (frame.leftArm.shoulder[0] !== 0 || frame.leftArm.shoulder[1] !== 0);
-  const hasRightArmData = frame?.rightArm && 
-    (frame.rightArm.shoulder[0] !== 0 || frame.rightArm.shoulder[1] !== 0);
+  // Check if we have tracked arm data (low-confidence arms fall back to the hand-driven pose)
+  const hasLeftArmData = isArmTracked(frame?.leftArm);
+  const hasRightArmData = isArmTracked(frame?.rightArm);
   
   // Convert tracked arm coordinates to 3D space
   const normalizeArmPoint = (coord: [number, number, number], scale: number = 1.2): THREE.Vector3 => {
@@ -454,27 +558,8 @@ const CartoonAvatar = ({ frame }: CartoonAvatarProps) => {
 
   return (
     <group position={[0, -0.2, 0]}>
-      {/* Head */}
-      <mesh position={positions.head}>
-        <sphereGeometry args={[BODY.headRadius, 24, 24]} />
-        <meshStandardMaterial color={COLORS.skin} roughness={0.5} metalness={0.1} />
-      </mesh>
-      
-      {/* Eyes */}
-      <mesh position={[positions.head.x - 0.04, positions.head.y + 0.02, positions.head.z + BODY.headRadius * 0.85]}>
-        <sphereGeometry args={[0.02, 12, 12]} />
-        <meshStandardMaterial color="#333" roughness={0.3} />
-      </mesh>
-      <mesh position={[positions.head.x + 0.04, positions.head.y + 0.02, positions.head.z + BODY.headRadius * 0.85]}>
-        <sphereGeometry args={[0.02, 12, 12]} />
-        <meshStandardMaterial color="#333" roughness={0.3} />
-      </mesh>
-      
-      {/* Smile */}
-      <mesh position={[0, positions.head.y - 0.03, positions.head.z + BODY.headRadius * 0.9]} rotation={[0, 0, 0]}>
-        <torusGeometry args={[0.04, 0.008, 8, 16, Math.PI]} />
-        <meshStandardMaterial color="#333" roughness={0.3} />
-      </mesh>
+      {/* Head, turned and animated by the face/pose tracks */}
+      <CartoonHead position={positions.head} frame={frame} showNonManuals={showNonManuals} />
       
       {/* Neck */}
       <Limb start={positions.neckBottom} end={positions.neckTop} radius={0.035} color={COLORS.skin} />
@@ -499,6 +584,7 @@ const CartoonAvatar = ({ frame }: CartoonAvatarProps) => {
       {/* Left Hand with Fingers (connected to wrist) */}
       <HandWithFingers 
         landmarks={frame?.leftHand || null}
+        confidence={frame?.leftConfidence}
         wristPos={armPositions.left.wrist}
         isVisible={leftHandVisible}
       />
@@ -506,6 +592,7 @@ const CartoonAvatar = ({ frame }: CartoonAvatarProps) => {
       {/* Right Hand with Fingers (connected to wrist) */}
       <HandWithFingers 
         landmarks={frame?.rightHand || null}
+        confidence={frame?.rightConfidence}
         wristPos={armPositions.right.wrist}
         isVisible={rightHandVisible}
       />
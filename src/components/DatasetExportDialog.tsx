@@ -0,0 +1,225 @@
+import { useMemo, useState } from 'react';
+import { Package, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { SignRecording, acceptedExtensions, decodeRecording } from '@/lib/codecs';
+import { downloadBlob } from '@/lib/download';
+import {
+  DATASET_SPLITS,
+  DEFAULT_SPLIT_RATIOS,
+  DatasetItem,
+  SplitRatios,
+  buildDatasetManifest,
+  createDatasetItem,
+  encodeDatasetBundle,
+} from '@/lib/dataset';
+
+interface DatasetExportDialogProps {
+  // The recording open in the viewer, offered as a one-click addition
+  current: { name: string; recording: SignRecording } | null;
+}
+
+const DatasetExportDialog = ({ current }: DatasetExportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [items, setItems] = useState<DatasetItem[]>([]);
+  const [ratios, setRatios] = useState<SplitRatios>(DEFAULT_SPLIT_RATIOS);
+  const [seed, setSeed] = useState(0);
+  const [isReading, setIsReading] = useState(false);
+
+  // Later additions with the same id replace the earlier one
+  const addItems = (added: DatasetItem[]) => {
+    setItems((prev) => [...prev.filter((item) => !added.some((a) => a.id === item.id)), ...added]);
+  };
+
+  const updateItem = (id: string, patch: Partial<DatasetItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0) return;
+
+    setIsReading(true);
+    const added: DatasetItem[] = [];
+    for (const file of files) {
+      try {
+        added.push(createDatasetItem(file.name, decodeRecording(file.name, await file.arrayBuffer())));
+      } catch (error) {
+        toast.error(`Could not read ${file.name}`, { description: (error as Error).message });
+      }
+    }
+    addItems(added);
+    setIsReading(false);
+  };
+
+  const manifest = useMemo(() => {
+    try {
+      return buildDatasetManifest(items, ratios, seed);
+    } catch {
+      return null;
+    }
+  }, [items, ratios, seed]);
+
+  const splitOf = (id: string) => manifest?.recordings.find((entry) => entry.source === id)?.split;
+
+  const exportBundle = () => {
+    try {
+      const bundle = encodeDatasetBundle(items, buildDatasetManifest(items, ratios, seed));
+      downloadBlob(new Blob([bundle], { type: 'application/zip' }), 'sign_dataset.zip');
+      toast.success(`Exported ${items.length} recordings`);
+      setOpen(false);
+    } catch (error) {
+      console.error('Failed to export dataset:', error);
+      toast.error('Could not export dataset', { description: (error as Error).message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-1.5 sm:gap-2 whitespace-nowrap"
+        >
+          <Package className="w-4 h-4" />
+          <span className="hidden xs:inline">Dataset</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export dataset</DialogTitle>
+          <DialogDescription>
+            Bundle recordings as CSV in one zip with a manifest.json. All takes by a signer go into the
+            same split.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <label className="cursor-pointer">
+                <Plus className="w-4 h-4 mr-1" />
+                Add recordings
+                <input
+                  type="file"
+                  className="hidden"
+                  accept={acceptedExtensions()}
+                  multiple
+                  onChange={(e) => {
+                    handleFiles(e.target.files);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!current || current.recording.frames.length === 0}
+              onClick={() => current && addItems([createDatasetItem(current.name, current.recording)])}
+            >
+              Add loaded recording
+            </Button>
+            {isReading && <span className="self-center text-xs text-muted-foreground">Reading files...</span>}
+          </div>
+
+          <ScrollArea className="h-64 rounded-md border">
+            {items.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">No recordings added yet.</p>
+            ) : (
+              <div className="divide-y">
+                <div className="grid grid-cols-[1fr_1fr_1fr_auto_auto_auto] gap-2 px-3 py-2 text-xs text-muted-foreground">
+                  <span>File</span>
+                  <span>Label</span>
+                  <span>Signer</span>
+                  <span>Frames</span>
+                  <span>Split</span>
+                  <span />
+                </div>
+                {items.map((item) => (
+                  <div
+                    key={item.id}
+                    className="grid grid-cols-[1fr_1fr_1fr_auto_auto_auto] items-center gap-2 px-3 py-1.5"
+                  >
+                    <span className="truncate font-mono text-xs" title={item.id}>{item.id}</span>
+                    <Input
+                      className="h-8"
+                      value={item.label}
+                      onChange={(e) => updateItem(item.id, { label: e.target.value })}
+                    />
+                    <Input
+                      className="h-8"
+                      value={item.signer}
+                      placeholder="unknown"
+                      onChange={(e) => updateItem(item.id, { signer: e.target.value })}
+                    />
+                    <span className="text-right font-mono text-xs">{item.recording.frames.length}</span>
+                    <Badge variant="secondary" className="justify-center">{splitOf(item.id) ?? '–'}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setItems((prev) => prev.filter((i) => i.id !== item.id))}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+
+          <div className="grid grid-cols-4 gap-3">
+            {DATASET_SPLITS.map((split) => (
+              <div key={split} className="space-y-1">
+                <Label htmlFor={`split-${split}`} className="capitalize">
+                  {split} % <span className="text-muted-foreground">({manifest?.counts[split] ?? 0})</span>
+                </Label>
+                <Input
+                  id={`split-${split}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={ratios[split]}
+                  onChange={(e) => setRatios((r) => ({ ...r, [split]: Math.max(0, Number(e.target.value)) }))}
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="split-seed">Shuffle seed</Label>
+              <Input
+                id="split-seed"
+                type="number"
+                value={seed}
+                onChange={(e) => setSeed(Number(e.target.value))}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={exportBundle} disabled={items.length === 0 || !manifest}>
+            Export zip
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DatasetExportDialog;
@@ -0,0 +1,96 @@
+import { Fragment, useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { listEncoders } from '@/lib/codecs';
+import { AnimationExporter, ExportOptions, listExporters } from '@/lib/exporters';
+import { NORMALIZATION_MODES, NormalizationMode } from '@/lib/normalize';
+
+interface ExportMenuProps {
+  onExport: (codecId: string) => void;
+  onExportAnimation: (exporterId: string, options?: Partial<ExportOptions>) => void;
+  disabled?: boolean;
+}
+
+// Exporters grouped by menu section, keeping registration order
+const exportSections = (): [string, AnimationExporter[]][] => {
+  const sections = new Map<string, AnimationExporter[]>();
+  for (const exporter of listExporters()) {
+    sections.set(exporter.section, [...(sections.get(exporter.section) ?? []), exporter]);
+  }
+  return [...sections];
+};
+
+const ExportMenu = ({ onExport, onExportAnimation, disabled = false }: ExportMenuProps) => {
+  const [normalization, setNormalization] = useState<NormalizationMode>('none');
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-1.5 sm:gap-2 whitespace-nowrap"
+          disabled={disabled}
+        >
+          <Download className="w-4 h-4" />
+          <span className="hidden xs:inline">Download</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Recording</DropdownMenuLabel>
+        {listEncoders().map((codec) => (
+          <DropdownMenuItem key={codec.id} onSelect={() => onExport(codec.id)}>
+            <span>{codec.label}</span>
+            <span className="ml-auto pl-4 text-xs font-mono text-muted-foreground">{codec.extensions[0]}</span>
+          </DropdownMenuItem>
+        ))}
+        {exportSections().map(([section, exporters]) => (
+          <Fragment key={section}>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground">{section}</DropdownMenuLabel>
+            {exporters.some((exporter) => exporter.normalizable) && (
+              // Coordinate frame for this section's exports; picking one keeps the menu open
+              <DropdownMenuRadioGroup
+                value={normalization}
+                onValueChange={(value) => setNormalization(value as NormalizationMode)}
+              >
+                {NORMALIZATION_MODES.map((mode) => (
+                  <DropdownMenuRadioItem
+                    key={mode.id}
+                    value={mode.id}
+                    className="text-xs"
+                    title={mode.description}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {mode.name}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            )}
+            {exporters.map((exporter) => (
+              <DropdownMenuItem
+                key={exporter.id}
+                onSelect={() => onExportAnimation(exporter.id, exporter.normalizable ? { normalization } : undefined)}
+              >
+                <span>{exporter.label}</span>
+                <span className="ml-auto pl-4 text-xs font-mono text-muted-foreground">{exporter.extension}</span>
+              </DropdownMenuItem>
+            ))}
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
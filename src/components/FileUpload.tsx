@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
 import { Upload, FileText } from 'lucide-react';
+import { acceptedExtensions, isSupportedFile } from '@/lib/codecs';
 
 interface FileUploadProps {
   onFileUpload: (file: File) => void;
@@ -12,7 +13,7 @@ const FileUpload = ({ onFileUpload, hasData, fileName }: FileUploadProps) => {
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       const file = e.dataTransfer.files[0];
-      if (file && file.name.endsWith('.csv')) {
+      if (file && isSupportedFile(file.name)) {
         onFileUpload(file);
       }
     },
@@ -37,7 +38,7 @@ const FileUpload = ({ onFileUpload, hasData, fileName }: FileUploadProps) => {
     >
       <input
         type="file"
-        accept=".csv"
+        accept={acceptedExtensions()}
         onChange={handleChange}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
       />
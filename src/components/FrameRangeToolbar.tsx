@@ -0,0 +1,185 @@
+import {
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  ClipboardPaste,
+  Copy,
+  CopyPlus,
+  Crop,
+  FlipHorizontal2,
+  LucideIcon,
+  MoveHorizontal,
+  Redo2,
+  Scissors,
+  Trash2,
+  Undo2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { FrameRange } from '@/lib/trim';
+
+interface FrameRangeToolbarProps {
+  selection: FrameRange | null;
+  currentFrame: number;
+  totalFrames: number;
+  clipboardSize: number;
+  onSelectionChange: (range: FrameRange | null) => void;
+  onCopy: () => void;
+  onCut: () => void;
+  onPaste: () => void;
+  onDelete: () => void;
+  onCrop: () => void;
+  onDuplicate: () => void;
+  onReverse: () => void;
+  onStretch: (factor: number) => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// Factors offered for time-stretching; above 1 slows the selection down
+const STRETCH_FACTORS = [0.5, 0.75, 1.5, 2];
+
+// Edits on the frames selected on the timeline. The selection is dragged out on
+// the strip under the slider, or set from the playhead with the in/out buttons.
+const FrameRangeToolbar = ({
+  selection,
+  currentFrame,
+  totalFrames,
+  clipboardSize,
+  onSelectionChange,
+  onCopy,
+  onCut,
+  onPaste,
+  onDelete,
+  onCrop,
+  onDuplicate,
+  onReverse,
+  onStretch,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+}: FrameRangeToolbarProps) => {
+  const count = selection ? selection.end - selection.start : 0;
+  // Deleting every frame would leave nothing to play; crop keeps the rest instead
+  const wholeRecording = count >= totalFrames;
+
+  const actions: { label: string; icon: LucideIcon; onClick: () => void; disabled: boolean }[] = [
+    { label: 'Copy', icon: Copy, onClick: onCopy, disabled: !selection },
+    { label: 'Cut', icon: Scissors, onClick: onCut, disabled: !selection || wholeRecording },
+    {
+      label: clipboardSize > 0 ? `Paste ${clipboardSize} frames at playhead` : 'Nothing to paste',
+      icon: ClipboardPaste,
+      onClick: onPaste,
+      disabled: clipboardSize === 0,
+    },
+    { label: 'Delete', icon: Trash2, onClick: onDelete, disabled: !selection || wholeRecording },
+    { label: 'Crop to selection', icon: Crop, onClick: onCrop, disabled: !selection || wholeRecording },
+    { label: 'Duplicate', icon: CopyPlus, onClick: onDuplicate, disabled: !selection },
+    { label: 'Reverse', icon: FlipHorizontal2, onClick: onReverse, disabled: count < 2 },
+  ];
+
+  return (
+    <div className="glass-panel p-3 sm:p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs sm:text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          Selection
+        </h3>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 sm:h-8 sm:w-8"
+            onClick={() =>
+              onSelectionChange({ start: currentFrame, end: Math.max(currentFrame + 1, selection?.end ?? totalFrames) })
+            }
+            title="Start selection at playhead"
+          >
+            <ArrowRightToLine className="w-3 h-3 sm:w-4 sm:h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 sm:h-8 sm:w-8"
+            onClick={() =>
+              onSelectionChange({ start: Math.min(currentFrame, selection?.start ?? 0), end: currentFrame + 1 })
+            }
+            title="End selection at playhead"
+          >
+            <ArrowLeftToLine className="w-3 h-3 sm:w-4 sm:h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 sm:h-8 sm:w-8"
+            onClick={onUndo}
+            disabled={!undoLabel}
+            title={undoLabel ? `Undo ${undoLabel}` : 'Nothing to undo'}
+          >
+            <Undo2 className="w-3 h-3 sm:w-4 sm:h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 sm:h-8 sm:w-8"
+            onClick={onRedo}
+            disabled={!redoLabel}
+            title={redoLabel ? `Redo ${redoLabel}` : 'Nothing to redo'}
+          >
+            <Redo2 className="w-3 h-3 sm:w-4 sm:h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-[10px] sm:text-xs font-mono text-muted-foreground">
+        {selection
+          ? `Frames ${selection.start + 1}–${selection.end} (${count})`
+          : 'Drag on the strip under the timeline to select frames'}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {actions.map(({ label, icon: Icon, onClick, disabled }) => (
+          <Button
+            key={label}
+            variant="outline"
+            size="icon"
+            className="h-7 w-7 sm:h-8 sm:w-8"
+            onClick={onClick}
+            disabled={disabled}
+            title={label}
+          >
+            <Icon className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+          </Button>
+        ))}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-7 w-7 sm:h-8 sm:w-8"
+              disabled={count < 2}
+              title="Time-stretch"
+            >
+              <MoveHorizontal className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {STRETCH_FACTORS.map((factor) => (
+              <DropdownMenuItem key={factor} onSelect={() => onStretch(factor)}>
+                {factor * 100}% duration
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </div>
+  );
+};
+
+export default FrameRangeToolbar;
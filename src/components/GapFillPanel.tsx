@@ -0,0 +1,122 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { HandFrame } from '@/types/hand-data';
+import { DEFAULT_GAP_FILL, GAP_FILL_METHODS, GapFillMethod, GapFillOptions, fillHandGaps } from '@/lib/gap-fill';
+
+interface GapFillPanelProps {
+  frames: HandFrame[];
+  fps: number; // Frame spacing for recordings without timestamps
+  onPreviewChange: (filled: HandFrame[] | null) => void; // null shows the original frames
+  onApply: (filled: HandFrame[]) => void;
+  onSeek: (frame: number) => void;
+  onClose: () => void;
+}
+
+// Gaps listed in the panel; the rest are summarised in the count
+const LISTED_GAPS = 12;
+
+const GapFillPanel = ({ frames, fps, onPreviewChange, onApply, onSeek, onClose }: GapFillPanelProps) => {
+  const [options, setOptions] = useState<GapFillOptions>(DEFAULT_GAP_FILL);
+  const [showFilled, setShowFilled] = useState(true);
+
+  const result = useMemo(() => fillHandGaps(frames, options, fps), [frames, options, fps]);
+  const method = GAP_FILL_METHODS.find((m) => m.id === options.method);
+
+  useEffect(() => {
+    onPreviewChange(showFilled && result.filled.length > 0 ? result.frames : null);
+  }, [showFilled, result, onPreviewChange]);
+
+  // Back to the original frames when the panel goes away
+  useEffect(() => () => onPreviewChange(null), [onPreviewChange]);
+
+  const gaps = [...result.filled, ...result.skipped].sort((a, b) => a.start - b.start);
+
+  return (
+    <div className="glass-panel p-3 sm:p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs sm:text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          Gap filling
+        </h3>
+        <Button variant="ghost" size="icon" className="h-6 w-6 sm:h-8 sm:w-8" onClick={onClose}>
+          <X className="w-3 h-3 sm:w-4 sm:h-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <Select
+          value={options.method}
+          onValueChange={(value) => setOptions((o) => ({ ...o, method: value as GapFillMethod }))}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GAP_FILL_METHODS.map((m) => (
+              <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-[10px] sm:text-xs text-muted-foreground">{method?.description}</p>
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between text-[10px] sm:text-xs font-mono text-muted-foreground">
+          <span>Max gap</span>
+          <span className="text-primary font-semibold">{options.maxGap} frames</span>
+        </div>
+        <Slider
+          value={[options.maxGap]}
+          min={1}
+          max={30}
+          step={1}
+          onValueChange={([maxGap]) => setOptions((o) => ({ ...o, maxGap }))}
+        />
+      </div>
+
+      <div className="space-y-1.5 pt-2 border-t border-border/50">
+        <p className="text-[10px] sm:text-xs text-muted-foreground">
+          {gaps.length === 0
+            ? 'No tracking gaps between tracked frames.'
+            : `${result.filled.length} of ${gaps.length} gaps filled; longer ones stay untracked.`}
+        </p>
+        {gaps.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {gaps.slice(0, LISTED_GAPS).map((gap) => {
+              const filled = gap.end - gap.start <= options.maxGap;
+              return (
+                <button
+                  key={`${gap.side}-${gap.start}`}
+                  onClick={() => onSeek(gap.start)}
+                  className={`px-1.5 py-0.5 rounded text-[10px] font-mono border ${
+                    filled ? 'border-primary/40 text-primary' : 'border-border/50 text-muted-foreground'
+                  }`}
+                  title={`Jump to frame ${gap.start + 1}`}
+                >
+                  {gap.side === 'left' ? 'L' : 'R'} {gap.start + 1}–{gap.end} ({gap.end - gap.start})
+                </button>
+              );
+            })}
+            {gaps.length > LISTED_GAPS && (
+              <span className="text-[10px] text-muted-foreground self-center">+{gaps.length - LISTED_GAPS} more</span>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-[10px] sm:text-xs font-mono text-muted-foreground">
+        <span>Preview filled</span>
+        <Switch checked={showFilled} onCheckedChange={setShowFilled} className="scale-75" />
+      </div>
+
+      <Button size="sm" className="w-full" onClick={() => onApply(result.frames)} disabled={result.filled.length === 0}>
+        Fill {result.filled.length} {result.filled.length === 1 ? 'gap' : 'gaps'}
+      </Button>
+    </div>
+  );
+};
+
+export default GapFillPanel;
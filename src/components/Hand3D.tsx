@@ -1,10 +1,11 @@
 import { useMemo } from "react";
 import { Line, Tube } from "@react-three/drei";
 import * as THREE from "three";
-import { HAND_CONNECTIONS, normalizeCoordinates, isHandVisible, ArmLandmarks } from "@/types/hand-data";
+import { HAND_CONNECTIONS, HandPoints, normalizeCoordinates, isHandVisible, isLandmarkConfident, ArmLandmarks } from "@/types/hand-data";
 
 interface Hand3DProps {
-  landmarks: [number, number, number][];
+  landmarks: HandPoints; // Tuples, or a packed frame's Float32 view from handView
+  confidence?: number[]; // Per-landmark confidence; low-confidence joints are faded or hidden
   color: string;
   glowColor: string;
   position?: [number, number, number];
@@ -229,8 +230,12 @@ export const ArmSkeleton = ({
   );
 };
 
-const Hand3D = ({ landmarks, color, glowColor, position = [0, 0, 0], centerOnWrist = false, flipX = false }: Hand3DProps) => {
-  const visible = isHandVisible(landmarks);
+const Hand3D = ({ landmarks, confidence, color, glowColor, position = [0, 0, 0], centerOnWrist = false, flipX = false }: Hand3DProps) => {
+  const visible = isHandVisible(landmarks, confidence);
+
+  // Untracked joints are hidden; tracked ones fade with their confidence
+  const isTracked = (index: number) => isLandmarkConfident(confidence, index);
+  const opacityOf = (index: number) => (confidence ? Math.min(1, confidence[index] ?? 1) : 1);
 
   // Apply the reversal fixes and convert to Three.js Vectors
   // When centerOnWrist is true, offset all points so wrist is at origin
@@ -260,8 +265,10 @@ const Hand3D = ({ landmarks, color, glowColor, position = [0, 0, 0], centerOnWri
   // Create the skeleton lines
   const linePoints = useMemo(() => {
     if (!visible || normalizedLandmarks.length === 0) return [];
-    return HAND_CONNECTIONS.map(([start, end]) => [normalizedLandmarks[start], normalizedLandmarks[end]]);
-  }, [normalizedLandmarks, visible]);
+    return HAND_CONNECTIONS
+      .filter(([start, end]) => isLandmarkConfident(confidence, start) && isLandmarkConfident(confidence, end))
+      .map(([start, end]) => [normalizedLandmarks[start], normalizedLandmarks[end]]);
+  }, [normalizedLandmarks, visible, confidence]);
 
   // Skin color - warm peachy tone
   const skinColor = "#e8beac";
@@ -279,13 +286,13 @@ const Hand3D = ({ landmarks, color, glowColor, position = [0, 0, 0], centerOnWri
   return (
     <group position={position}>
       {/* Skin Layer - Palm */}
-      {normalizedLandmarks.length >= 21 && (
+      {normalizedLandmarks.length >= 21 && PALM_INDICES.every(isTracked) && (
         <PalmMesh landmarks={normalizedLandmarks} skinColor={skinColor} />
       )}
 
       {/* Skin Layer - Finger tubes */}
       {normalizedLandmarks.length >= 21 && FINGER_SEGMENTS.map((finger, fingerIdx) => (
-        finger.slice(1).map(([start, end], segmentIdx) => (
+        finger.slice(1).map(([start, end], segmentIdx) => isTracked(start) && isTracked(end) && (
           <SkinTube
             key={`skin-${fingerIdx}-${segmentIdx}`}
             start={normalizedLandmarks[start]}
@@ -299,6 +306,8 @@ const Hand3D = ({ landmarks, color, glowColor, position = [0, 0, 0], centerOnWri
 
       {/* Skin spheres at joints for smooth connections */}
       {normalizedLandmarks.map((pos, index) => {
+        if (!isTracked(index)) return null;
+        const opacity = opacityOf(index);
         const isWrist = index === 0;
         const isTip = [4, 8, 12, 16, 20].includes(index);
         const isBase = [1, 5, 9, 13, 17].includes(index);
@@ -315,16 +324,24 @@ const Hand3D = ({ landmarks, color, glowColor, position = [0, 0, 0], centerOnWri
               color={skinColor} 
               roughness={0.7} 
               metalness={0.1}
+              transparent={opacity < 1}
+              opacity={opacity}
             />
           </mesh>
         );
       })}
 
       {/* Skeleton overlay - joints */}
-      {normalizedLandmarks.map((pos, index) => (
+      {normalizedLandmarks.map((pos, index) => isTracked(index) && (
         <mesh key={index} position={pos}>
           <sphereGeometry args={[0.02, 12, 12]} />
-          <meshStandardMaterial color={color} emissive={glowColor} emissiveIntensity={0.8} />
+          <meshStandardMaterial
+            color={color}
+            emissive={glowColor}
+            emissiveIntensity={0.8}
+            transparent={opacityOf(index) < 1}
+            opacity={opacityOf(index)}
+          />
         </mesh>
       ))}
 
@@ -334,10 +351,50 @@ const Hand3D = ({ landmarks, color, glowColor, position = [0, 0, 0], centerOnWri
       ))}
 
       {/* Fingertip Highlight */}
-      {[4, 8, 12, 16, 20].map((tip) => (
+      {[4, 8, 12, 16, 20].filter(isTracked).map((tip) => (
         <mesh key={`glow-${tip}`} position={normalizedLandmarks[tip]}>
           <sphereGeometry args={[0.045, 16, 16]} />
-          <meshBasicMaterial color={glowColor} transparent opacity={0.4} />
+          <meshBasicMaterial color={glowColor} transparent opacity={0.4 * opacityOf(tip)} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+// Faint skeleton of a second version of the same frame, drawn over Hand3D to
+// compare e.g. raw and smoothed data; takes the same placement props
+export const HandGhost = ({
+  landmarks,
+  confidence,
+  color = "#9aa4b2",
+  position = [0, 0, 0],
+  centerOnWrist = false,
+}: Pick<Hand3DProps, "landmarks" | "confidence" | "position" | "centerOnWrist"> & { color?: string }) => {
+  const visible = isHandVisible(landmarks, confidence);
+
+  const points = useMemo(() => {
+    if (!visible) return [];
+    const coords = normalizeCoordinates(landmarks, 3).map((p) => new THREE.Vector3(...p));
+    if (centerOnWrist) {
+      const wrist = coords[0].clone();
+      coords.forEach((p) => p.sub(wrist));
+    }
+    return coords;
+  }, [landmarks, visible, centerOnWrist]);
+
+  if (!visible || points.length < 21) return null;
+
+  return (
+    <group position={position}>
+      {HAND_CONNECTIONS
+        .filter(([start, end]) => isLandmarkConfident(confidence, start) && isLandmarkConfident(confidence, end))
+        .map(([start, end], index) => (
+          <Line key={index} points={[points[start], points[end]]} color={color} lineWidth={1} transparent opacity={0.45} />
+        ))}
+      {points.map((pos, index) => isLandmarkConfident(confidence, index) && (
+        <mesh key={index} position={pos}>
+          <sphereGeometry args={[0.015, 8, 8]} />
+          <meshBasicMaterial color={color} transparent opacity={0.45} />
         </mesh>
       ))}
     </group>
@@ -1,19 +1,27 @@
-import { useMemo } from 'react';
+import { MutableRefObject, useEffect, useMemo, useRef, useState } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { OrbitControls, Grid, Environment, PerspectiveCamera } from '@react-three/drei';
-import Hand3D, { ArmSkeleton } from './Hand3D';
-import { HandFrame, ArmLandmarks } from '@/types/hand-data';
+import { OrbitControls, Grid, Environment, PerspectiveCamera, TransformControls } from '@react-three/drei';
+import * as THREE from 'three';
+import Hand3D, { ArmSkeleton, HandGhost } from './Hand3D';
+import { HandFrame, ArmLandmarks, isArmTracked, isHandVisible, isLandmarkConfident, normalizeCoordinates } from '@/types/hand-data';
+import { HandSide, LandmarkRef, applyLandmarkEdit, landmarkKey } from '@/lib/landmark-edit';
+import { handView } from '@/lib/codecs';
 
 interface HandVisualizationProps {
   frame: HandFrame | null;
   showArms?: boolean;
+  ghostFrame?: HandFrame | null; // Drawn faintly over the hands for before/after comparisons
+  editing?: boolean; // Landmarks can be picked (shift-click adds) and dragged with a gizmo
+  selection?: LandmarkRef[];
+  onSelectionChange?: (selection: LandmarkRef[]) => void;
+  onLandmarksMoved?: (delta: [number, number, number]) => void; // Offset of the selection, image coordinates
 }
 
-// Helper to check if arm data is valid
-const isArmValid = (arm?: ArmLandmarks) => {
-  if (!arm) return false;
-  return arm.shoulder.some(v => v !== 0) && arm.elbow.some(v => v !== 0);
-};
+// Scene units per unit of image coordinates, as used by normalizeCoordinates
+const SCENE_SCALE = 3;
+const LEFT_FALLBACK: [number, number, number] = [1.5, 0, 0];
+const RIGHT_FALLBACK: [number, number, number] = [-1.5, 0, 0];
+const SELECTED_COLOR = '#facc15';
 
 // Convert arm wrist to 3D position for hand placement
 // Coordinates are already mirrored in CameraCapture, so just center and scale
@@ -25,9 +33,172 @@ const getWristPosition = (arm: ArmLandmarks, scale = 3): [number, number, number
   ];
 };
 
-const Scene = ({ frame, showArms = true }: HandVisualizationProps) => {
-  const hasLeftArm = showArms && isArmValid(frame?.leftArm);
-  const hasRightArm = showArms && isArmValid(frame?.rightArm);
+// Where a hand is drawn: at its arm's wrist when arms are shown, otherwise a fixed offset
+const handPlacement = (arm: ArmLandmarks | undefined, showArms: boolean, fallback: [number, number, number]) =>
+  showArms && arm && isArmTracked(arm)
+    ? { position: getWristPosition(arm), centerOnWrist: true }
+    : { position: fallback, centerOnWrist: false };
+
+// Scene positions of a hand's landmarks, matching where Hand3D draws them
+const scenePoints = (
+  landmarks: [number, number, number][],
+  { position, centerOnWrist }: { position: [number, number, number]; centerOnWrist: boolean }
+) => {
+  const coords = normalizeCoordinates(landmarks, SCENE_SCALE).map((p) => new THREE.Vector3(...p));
+  const origin = new THREE.Vector3(...position);
+  if (centerOnWrist) origin.sub(coords[0]);
+  return coords.map((p) => p.add(origin));
+};
+
+// Scene-space offset back to image coordinates (y points down, z away from the camera)
+const toImageDelta = (offset: THREE.Vector3): [number, number, number] => [
+  offset.x / SCENE_SCALE,
+  -offset.y / SCENE_SCALE,
+  -offset.z / SCENE_SCALE,
+];
+
+interface LandmarkEditorProps {
+  frame: HandFrame;
+  showArms: boolean;
+  selection: LandmarkRef[];
+  onSelectionChange: (selection: LandmarkRef[]) => void;
+  onDrag: (delta: [number, number, number] | null) => void; // Live offset while the gizmo moves
+  onLandmarksMoved: (delta: [number, number, number]) => void;
+}
+
+// Pickable markers on every tracked hand landmark, and a translate gizmo at the
+// centre of the selection
+const LandmarkEditor = ({ frame, showArms, selection, onSelectionChange, onDrag, onLandmarksMoved }: LandmarkEditorProps) => {
+  const pivotRef = useRef<THREE.Group>(null);
+  const dragStart = useRef<THREE.Vector3 | null>(null);
+
+  // A hand drawn at its arm's wrist is centred on landmark 0, so moving that
+  // landmark would move the other 20 instead; it can't be picked there
+  const pinnedWrists = useMemo(
+    () => new Set((['left', 'right'] as const)
+      .filter((side) => showArms && isArmTracked(side === 'left' ? frame.leftArm : frame.rightArm))
+      .map((side) => landmarkKey({ side, index: 0 }))),
+    [frame, showArms]
+  );
+
+  const hands = useMemo(() => {
+    const hand = (side: HandSide) => {
+      const [landmarks, confidence, arm, fallback] = side === 'left'
+        ? [frame.leftHand, frame.leftConfidence, frame.leftArm, LEFT_FALLBACK]
+        : [frame.rightHand, frame.rightConfidence, frame.rightArm, RIGHT_FALLBACK];
+      if (!isHandVisible(landmarks, confidence)) return [];
+      return scenePoints(landmarks, handPlacement(arm, showArms, fallback)).flatMap((point, index) =>
+        isLandmarkConfident(confidence, index) && !pinnedWrists.has(landmarkKey({ side, index }))
+          ? [{ ref: { side, index }, point }]
+          : []
+      );
+    };
+    return [...hand('left'), ...hand('right')];
+  }, [frame, showArms, pinnedWrists]);
+
+  // Drop a wrist picked before its hand was attached to the arm
+  useEffect(() => {
+    if (selection.some((ref) => pinnedWrists.has(landmarkKey(ref)))) {
+      onSelectionChange(selection.filter((ref) => !pinnedWrists.has(landmarkKey(ref))));
+    }
+  }, [selection, pinnedWrists, onSelectionChange]);
+
+  const selectedKeys = useMemo(() => new Set(selection.map(landmarkKey)), [selection]);
+  // Kept stable while dragging, so re-renders don't pull the pivot back under the gizmo
+  const { centre, count } = useMemo(() => {
+    const selected = hands.filter((h) => selectedKeys.has(landmarkKey(h.ref)));
+    const sum = new THREE.Vector3();
+    selected.forEach((h) => sum.add(h.point));
+    return {
+      centre: sum.divideScalar(Math.max(1, selected.length)).toArray() as [number, number, number],
+      count: selected.length,
+    };
+  }, [hands, selectedKeys]);
+
+  const pick = (ref: LandmarkRef, additive: boolean) => {
+    const key = landmarkKey(ref);
+    if (!additive) {
+      onSelectionChange([ref]);
+    } else if (selectedKeys.has(key)) {
+      onSelectionChange(selection.filter((s) => landmarkKey(s) !== key));
+    } else {
+      onSelectionChange([...selection, ref]);
+    }
+  };
+
+  const offset = () =>
+    pivotRef.current && dragStart.current ? pivotRef.current.position.clone().sub(dragStart.current) : null;
+
+  return (
+    <>
+      {hands.map(({ ref, point }) => (
+        <mesh
+          key={landmarkKey(ref)}
+          position={point}
+          renderOrder={1}
+          onClick={(e) => {
+            e.stopPropagation();
+            pick(ref, e.shiftKey);
+          }}
+        >
+          <sphereGeometry args={[0.03, 12, 12]} />
+          <meshBasicMaterial
+            color={selectedKeys.has(landmarkKey(ref)) ? SELECTED_COLOR : '#ffffff'}
+            transparent
+            opacity={selectedKeys.has(landmarkKey(ref)) ? 0.95 : 0.35}
+            depthTest={false}
+          />
+        </mesh>
+      ))}
+
+      {count > 0 && (
+        <>
+          <group ref={pivotRef} position={centre} />
+          <TransformControls
+            object={pivotRef as MutableRefObject<THREE.Object3D>}
+            mode="translate"
+            size={0.6}
+            onMouseDown={() => {
+              dragStart.current = pivotRef.current?.position.clone() ?? null;
+            }}
+            onObjectChange={() => {
+              const moved = offset();
+              if (moved) onDrag(toImageDelta(moved));
+            }}
+            onMouseUp={() => {
+              const moved = offset();
+              dragStart.current = null;
+              onDrag(null);
+              if (moved && moved.lengthSq() > 0) onLandmarksMoved(toImageDelta(moved));
+            }}
+          />
+        </>
+      )}
+    </>
+  );
+};
+
+const Scene = ({
+  frame: sourceFrame,
+  showArms = true,
+  ghostFrame,
+  editing = false,
+  selection = [],
+  onSelectionChange,
+  onLandmarksMoved,
+}: HandVisualizationProps) => {
+  // Offset of the selection while the gizmo is being dragged, shown before it is committed
+  const [dragDelta, setDragDelta] = useState<[number, number, number] | null>(null);
+  const frame = useMemo(
+    () =>
+      sourceFrame && dragDelta
+        ? applyLandmarkEdit([sourceFrame], { frame: 0, landmarks: selection, delta: dragDelta, radius: 0 })[0]
+        : sourceFrame,
+    [sourceFrame, dragDelta, selection]
+  );
+
+  const hasLeftArm = showArms && isArmTracked(frame?.leftArm);
+  const hasRightArm = showArms && isArmTracked(frame?.rightArm);
 
   // Debug logging
   console.log('HandVisualization:', {
@@ -35,8 +206,8 @@ const Scene = ({ frame, showArms = true }: HandVisualizationProps) => {
     hasRightArm,
     leftArm: frame?.leftArm,
     rightArm: frame?.rightArm,
-    leftHandVisible: frame?.leftHand?.some(p => p[0] !== 0 || p[1] !== 0),
-    rightHandVisible: frame?.rightHand?.some(p => p[0] !== 0 || p[1] !== 0),
+    leftHandVisible: frame ? isHandVisible(handView(frame, 'left') ?? frame.leftHand) : false,
+    rightHandVisible: frame ? isHandVisible(handView(frame, 'right') ?? frame.rightHand) : false,
   });
 
   // Calculate hand positions - use arm wrist when available, otherwise use fixed offset
@@ -62,6 +233,7 @@ const Scene = ({ frame, showArms = true }: HandVisualizationProps) => {
     <>
       <PerspectiveCamera makeDefault position={[0, 0, 5]} fov={50} />
       <OrbitControls
+        makeDefault
         enablePan={true}
         enableZoom={true}
         enableRotate={true}
@@ -107,18 +279,37 @@ const Scene = ({ frame, showArms = true }: HandVisualizationProps) => {
         />
       )}
 
-      {/* Hands positioned at arm wrist (or fixed offset if no arm data) */}
+      {/* Comparison skeletons, placed like the hands below */}
+      {ghostFrame && (
+        <>
+          <HandGhost
+            landmarks={handView(ghostFrame, 'left') ?? ghostFrame.leftHand}
+            confidence={ghostFrame.leftConfidence}
+            {...handPlacement(ghostFrame.leftArm, showArms, LEFT_FALLBACK)}
+          />
+          <HandGhost
+            landmarks={handView(ghostFrame, 'right') ?? ghostFrame.rightHand}
+            confidence={ghostFrame.rightConfidence}
+            {...handPlacement(ghostFrame.rightArm, showArms, RIGHT_FALLBACK)}
+          />
+        </>
+      )}
+
+      {/* Hands positioned at arm wrist (or fixed offset if no arm data); packed
+          recordings are drawn straight from their Float32 rows */}
       {frame && (
         <>
           <Hand3D
-            landmarks={frame.leftHand}
+            landmarks={handView(frame, 'left') ?? frame.leftHand}
+            confidence={frame.leftConfidence}
             color="#00d4ff"
             glowColor="#00f0ff"
             position={leftHandPosition}
             centerOnWrist={hasLeftArm}
           />
           <Hand3D
-            landmarks={frame.rightHand}
+            landmarks={handView(frame, 'right') ?? frame.rightHand}
+            confidence={frame.rightConfidence}
             color="#00ff88"
             glowColor="#00ffaa"
             position={rightHandPosition}
@@ -126,11 +317,22 @@ const Scene = ({ frame, showArms = true }: HandVisualizationProps) => {
           />
         </>
       )}
+
+      {editing && sourceFrame && onSelectionChange && onLandmarksMoved && (
+        <LandmarkEditor
+          frame={sourceFrame}
+          showArms={showArms}
+          selection={selection}
+          onSelectionChange={onSelectionChange}
+          onDrag={setDragDelta}
+          onLandmarksMoved={onLandmarksMoved}
+        />
+      )}
     </>
   );
 };
 
-const HandVisualization = ({ frame, showArms = true }: HandVisualizationProps) => {
+const HandVisualization = (props: HandVisualizationProps) => {
   return (
     <div className="w-full h-full rounded-xl overflow-hidden glass-panel animate-pulse-glow">
       <Canvas
@@ -139,7 +341,7 @@ const HandVisualization = ({ frame, showArms = true }: HandVisualizationProps) =
       >
         <color attach="background" args={['#0a0f14']} />
         <fog attach="fog" args={['#0a0f14', 5, 15]} />
-        <Scene frame={frame} showArms={showArms} />
+        <Scene {...props} />
       </Canvas>
     </div>
   );
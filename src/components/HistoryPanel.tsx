@@ -0,0 +1,75 @@
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { HistoryEntry } from '@/lib/frame-history';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[]; // Every edit in order, done and undone
+  position: number; // How many entries are applied
+  truncated: boolean; // Older edits were dropped to save memory
+  storedBytes: number; // Estimated memory the steps hold
+  onJump: (position: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// The edits made to the loaded recording. Clicking a step undoes or redoes
+// everything after or up to it; undone steps stay listed until a new edit.
+const HistoryPanel = ({ entries, position, truncated, storedBytes, onJump, onUndo, onRedo }: HistoryPanelProps) => {
+  const row = (index: number, label: string, title?: string) => (
+    <button
+      key={index}
+      onClick={() => onJump(index)}
+      className={`w-full flex items-center gap-1.5 px-1.5 py-1 rounded text-left text-[10px] sm:text-xs font-mono transition-colors hover:bg-muted/50 ${
+        index === position ? 'bg-primary/10 text-primary' : index > position ? 'text-muted-foreground/50' : 'text-muted-foreground'
+      }`}
+      title={title}
+    >
+      <span className="w-4 shrink-0 text-right opacity-60">{index}</span>
+      <span className="truncate">{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="glass-panel p-3 sm:p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-1.5 text-xs sm:text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          <History className="w-3 h-3 sm:w-4 sm:h-4" />
+          History
+        </h3>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 sm:h-8 sm:w-8"
+            onClick={onUndo}
+            disabled={position === 0}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="w-3 h-3 sm:w-4 sm:h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 sm:h-8 sm:w-8"
+            onClick={onRedo}
+            disabled={position === entries.length}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="w-3 h-3 sm:w-4 sm:h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto space-y-0.5 pr-1">
+        {row(0, truncated ? 'Earlier edits' : 'Opened recording', truncated ? 'Older steps were dropped to save memory' : undefined)}
+        {entries.map((entry, i) => row(i + 1, entry.label))}
+      </div>
+
+      <p className="pt-2 border-t border-border/50 text-[10px] sm:text-xs font-mono text-muted-foreground">
+        ~{(storedBytes / (1024 * 1024)).toFixed(1)} MB kept for undo
+      </p>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,187 @@
+import { PointerEvent, useRef, useState } from 'react';
+import { Merge, Split } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  LabelRun,
+  labelColor,
+  mergeLabelRuns,
+  moveLabelBoundary,
+  renameLabelRun,
+  splitLabelRun,
+} from '@/lib/label-track';
+
+interface LabelTrackProps {
+  runs: LabelRun[];
+  totalFrames: number;
+  currentFrame: number;
+  onSeek: (frame: number) => void;
+  onChange?: (runs: LabelRun[]) => void; // Makes the track editable
+  proposed?: boolean; // Runs are a suggestion that hasn't been written to the frames yet
+}
+
+// Per-frame labels as coloured blocks along the recording. When editable, the
+// boundaries between blocks can be dragged, the block under the playhead split,
+// and the selected block renamed or merged with the next one.
+const LabelTrack = ({ runs, totalFrames, currentFrame, onSeek, onChange, proposed = false }: LabelTrackProps) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  // Boundary being dragged and the runs as they would be if it were dropped now
+  const [drag, setDrag] = useState<{ index: number; runs: LabelRun[] } | null>(null);
+  const [renaming, setRenaming] = useState<string | null>(null);
+
+  const editable = !!onChange && !proposed;
+  const shown = drag?.runs ?? runs;
+  const selectedRun = selected !== null ? runs[selected] : undefined;
+  const percent = (frame: number) => `${(frame / Math.max(1, totalFrames)) * 100}%`;
+
+  const commit = (next: LabelRun[]) => {
+    if (next !== runs) onChange?.(next);
+  };
+
+  const select = (index: number | null) => {
+    setSelected(index);
+    setRenaming(null);
+  };
+
+  const frameAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    return rect ? ((clientX - rect.left) / rect.width) * totalFrames : 0;
+  };
+
+  const startDrag = (index: number) => (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ index, runs });
+  };
+
+  const moveDrag = (e: PointerEvent<HTMLDivElement>) => {
+    if (drag) setDrag({ index: drag.index, runs: moveLabelBoundary(runs, drag.index, frameAt(e.clientX)) });
+  };
+
+  const endDrag = () => {
+    if (drag && drag.runs[drag.index].end !== runs[drag.index]?.end) commit(drag.runs);
+    setDrag(null);
+  };
+
+  const split = () => {
+    const next = splitLabelRun(runs, currentFrame);
+    if (next === runs) return;
+    commit(next);
+    // Straight into naming the new part
+    const index = next.findIndex((run) => run.start === currentFrame);
+    setSelected(index);
+    setRenaming(next[index].label);
+  };
+
+  const merge = () => {
+    if (selected === null) return;
+    commit(mergeLabelRuns(runs, selected));
+    select(selected);
+  };
+
+  const finishRename = () => {
+    if (selected !== null && renaming !== null && renaming.trim() && renaming.trim() !== selectedRun?.label) {
+      commit(renameLabelRun(runs, selected, renaming.trim()));
+    }
+    setRenaming(null);
+  };
+
+  const canSplit = runs.some((run) => currentFrame > run.start && currentFrame < run.end);
+
+  return (
+    <div className="glass-panel p-3 sm:p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs sm:text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          Labels
+        </h3>
+        {proposed && <span className="text-[10px] sm:text-xs font-mono text-primary">Proposed</span>}
+        {editable && (
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 sm:h-8 sm:w-8"
+              onClick={split}
+              disabled={!canSplit}
+              title="Split at playhead"
+            >
+              <Split className="w-3 h-3 sm:w-4 sm:h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 sm:h-8 sm:w-8"
+              onClick={merge}
+              disabled={selected === null || selected >= runs.length - 1}
+              title="Merge with next"
+            >
+              <Merge className="w-3 h-3 sm:w-4 sm:h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div ref={trackRef} className="relative h-8 rounded-md bg-muted/40 overflow-hidden select-none">
+        {shown.map((run, i) => (
+          <button
+            key={`${run.start}-${run.end}`}
+            onClick={() => {
+              if (editable) select(i);
+              onSeek(run.start);
+            }}
+            className={`absolute inset-y-0 px-1 text-left text-[10px] font-medium text-background truncate border-x border-background/40 ${
+              proposed ? 'opacity-80' : ''
+            } ${editable && i === selected ? 'ring-2 ring-inset ring-foreground' : ''}`}
+            style={{ left: percent(run.start), width: percent(run.end - run.start), backgroundColor: labelColor(run.label) }}
+            title={`${run.label} · frames ${run.start + 1}–${run.end}`}
+          >
+            {run.label}
+          </button>
+        ))}
+        {/* Drag handles on the boundaries between blocks */}
+        {editable &&
+          shown.slice(0, -1).map((run, i) => (
+            <div
+              key={`handle-${i}`}
+              className={`absolute inset-y-0 z-10 w-2 -translate-x-1/2 cursor-ew-resize touch-none hover:bg-foreground/40 ${
+                drag?.index === i ? 'bg-foreground/60' : ''
+              }`}
+              style={{ left: percent(run.end) }}
+              onPointerDown={startDrag(i)}
+              onPointerMove={moveDrag}
+              onPointerUp={endDrag}
+              onPointerCancel={() => setDrag(null)}
+              title={`Frame ${run.end + 1}`}
+            />
+          ))}
+        {/* Playhead */}
+        <div
+          className="absolute inset-y-0 w-0.5 bg-foreground pointer-events-none"
+          style={{ left: percent(currentFrame + 0.5) }}
+        />
+      </div>
+
+      {editable && selectedRun && (
+        <div className="flex items-center gap-2 text-[10px] sm:text-xs font-mono text-muted-foreground">
+          <Input
+            key={selected}
+            className="h-7 px-2 text-xs"
+            value={renaming ?? selectedRun.label}
+            onChange={(e) => setRenaming(e.target.value)}
+            onBlur={finishRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+              if (e.key === 'Escape') setRenaming(null);
+            }}
+            autoFocus={renaming !== null}
+          />
+          <span className="shrink-0">
+            {selectedRun.start + 1}–{selectedRun.end}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LabelTrack;
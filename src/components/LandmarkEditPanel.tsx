@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Redo2, Undo2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { LandmarkRef, landmarkKey, landmarkName } from '@/lib/landmark-edit';
+
+interface LandmarkEditPanelProps {
+  selection: LandmarkRef[];
+  onClearSelection: () => void;
+  radius: number; // Frames either side an edit blends into; 0 edits the current frame only
+  onRadiusChange: (radius: number) => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+const DEFAULT_RADIUS = 5;
+
+const LandmarkEditPanel = ({
+  selection,
+  onClearSelection,
+  radius,
+  onRadiusChange,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  onClose,
+}: LandmarkEditPanelProps) => {
+  // Radius to go back to when blending is switched off and on again
+  const [lastRadius, setLastRadius] = useState(radius || DEFAULT_RADIUS);
+
+  return (
+    <div className="glass-panel p-3 sm:p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs sm:text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          Edit landmarks
+        </h3>
+        <Button variant="ghost" size="icon" className="h-6 w-6 sm:h-8 sm:w-8" onClick={onClose}>
+          <X className="w-3 h-3 sm:w-4 sm:h-4" />
+        </Button>
+      </div>
+
+      <p className="text-[10px] sm:text-xs text-muted-foreground">
+        Click a joint in the Hands Only view to select it, shift-click to add more, then drag the arrows.
+      </p>
+
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between text-[10px] sm:text-xs font-mono text-muted-foreground">
+          <span>{selection.length === 0 ? 'Nothing selected' : `${selection.length} selected`}</span>
+          {selection.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-6 px-1.5 text-[10px]" onClick={onClearSelection}>
+              Clear
+            </Button>
+          )}
+        </div>
+        {selection.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {selection.map((ref) => (
+              <span
+                key={landmarkKey(ref)}
+                className="px-1.5 py-0.5 rounded text-[10px] font-mono border border-primary/40 text-primary"
+              >
+                {landmarkName(ref)}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1.5 pt-2 border-t border-border/50">
+        <div className="flex items-center justify-between text-[10px] sm:text-xs font-mono text-muted-foreground">
+          <span>Blend into nearby frames</span>
+          <Switch
+            checked={radius > 0}
+            onCheckedChange={(on) => onRadiusChange(on ? lastRadius : 0)}
+            className="scale-75"
+          />
+        </div>
+        {radius > 0 && (
+          <>
+            <div className="flex items-center justify-between text-[10px] sm:text-xs font-mono text-muted-foreground">
+              <span>Falloff</span>
+              <span className="text-primary font-semibold">±{radius} frames</span>
+            </div>
+            <Slider
+              value={[radius]}
+              min={1}
+              max={30}
+              step={1}
+              onValueChange={([value]) => {
+                setLastRadius(value);
+                onRadiusChange(value);
+              }}
+            />
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onUndo}
+          disabled={!undoLabel}
+          title={undoLabel ? `Undo ${undoLabel}` : 'Nothing to undo'}
+        >
+          <Undo2 className="w-4 h-4 mr-1.5" />
+          Undo
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onRedo}
+          disabled={!redoLabel}
+          title={redoLabel ? `Redo ${redoLabel}` : 'Nothing to redo'}
+        >
+          <Redo2 className="w-4 h-4 mr-1.5" />
+          Redo
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default LandmarkEditPanel;
@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { FolderOpen } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { SignRecording } from '@/lib/codecs';
+import { ArchiveEntry, readFileEntries } from '@/lib/zip';
+import { decodeOpenPose, detectNormalisedKeypoints, groupByClip, isOpenPoseFile } from '@/lib/importers/openpose';
+
+interface OpenPoseImportDialogProps {
+  onImport: (recording: SignRecording, name: string) => void;
+}
+
+// Folder name for a folder pick, archive name for a zip, otherwise the first file's name
+const sourceName = (files: File[]) => {
+  const first = files[0];
+  const folder = first.webkitRelativePath.split('/')[0];
+  return (folder || first.name).replace(/\.zip$/i, '');
+};
+
+// Select items cannot have an empty value, so files at the top level get their own key
+const TOP_LEVEL = '/';
+const clipKey = (folder: string) => folder || TOP_LEVEL;
+const clipFolder = (key: string) => (key === TOP_LEVEL ? '' : key);
+
+// The clip's own folder name, without any archive extension
+const folderLabel = (folder: string) => folder.split('/').pop()!.replace(/\.zip$/i, '');
+
+const OpenPoseImportDialog = ({ onImport }: OpenPoseImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [clips, setClips] = useState<Map<string, ArchiveEntry[]>>(new Map());
+  const [clip, setClip] = useState('');
+  const [source, setSource] = useState('');
+  const [label, setLabel] = useState('');
+  const [width, setWidth] = useState(1280);
+  const [height, setHeight] = useState(720);
+  const [fps, setFps] = useState(25);
+  const [normalised, setNormalised] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0) return;
+
+    setIsReading(true);
+    try {
+      // Each folder is its own clip; several dropped together are imported one at a time
+      const grouped = groupByClip(await readFileEntries(files, isOpenPoseFile));
+      const [first = ''] = grouped.keys();
+      setClips(grouped);
+      setSource(sourceName(files));
+      chooseClip(first, grouped, sourceName(files));
+    } catch (error) {
+      toast.error('Could not read keypoint files', { description: (error as Error).message });
+      setClips(new Map());
+    }
+    setIsReading(false);
+  };
+
+  const chooseClip = (folder: string, grouped = clips, fallback = source) => {
+    setClip(folder);
+    setLabel(folderLabel(folder) || fallback);
+    setNormalised(detectNormalisedKeypoints(grouped.get(folder) ?? []));
+  };
+
+  const entries = clips.get(clip) ?? [];
+
+  const importFrames = () => {
+    try {
+      const recording = decodeOpenPose(entries, {
+        width: normalised ? 1 : width,
+        height: normalised ? 1 : height,
+        fps: fps > 0 ? fps : undefined,
+        label: label || 'Imported',
+      });
+      onImport(recording, `${label || 'openpose'}.csv`);
+      setOpen(false);
+      setClips(new Map());
+    } catch (error) {
+      toast.error('Could not import keypoints', { description: (error as Error).message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-1.5 sm:gap-2 whitespace-nowrap"
+        >
+          <FolderOpen className="w-4 h-4" />
+          <span className="hidden xs:inline">OpenPose</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import OpenPose keypoints</DialogTitle>
+          <DialogDescription>
+            Per-frame keypoint JSON as published with WLASL or How2Sign. Pick the clip's folder or a zip of it;
+            frames are ordered by file name. When several clip folders are picked, choose which one to import.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <label className="cursor-pointer">
+                Choose folder
+                <input
+                  type="file"
+                  className="hidden"
+                  {...{ webkitdirectory: '' }}
+                  onChange={(e) => handleFiles(e.target.files)}
+                />
+              </label>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <label className="cursor-pointer">
+                Choose zip or files
+                <input
+                  type="file"
+                  className="hidden"
+                  accept=".zip,.json"
+                  multiple
+                  onChange={(e) => handleFiles(e.target.files)}
+                />
+              </label>
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {isReading ? 'Reading files...' : `${entries.length} keypoint files selected`}
+          </p>
+          {clips.size > 1 && (
+            <div className="space-y-1">
+              <Label>Clip folder ({clips.size} found)</Label>
+              <Select value={clipKey(clip)} onValueChange={(key) => chooseClip(clipFolder(key))}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...clips].map(([folder, files]) => (
+                    <SelectItem key={clipKey(folder)} value={clipKey(folder)}>
+                      {folder || '(top level)'} · {files.length} frames
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="openpose-label">Sign label</Label>
+              <Input id="openpose-label" value={label} onChange={(e) => setLabel(e.target.value)} />
+            </div>
+            <div className="col-span-2 flex items-center justify-between">
+              <Label htmlFor="openpose-normalised">Coordinates already 0–1</Label>
+              <Switch id="openpose-normalised" checked={normalised} onCheckedChange={setNormalised} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="openpose-width">Video width (px)</Label>
+              <Input
+                id="openpose-width"
+                type="number"
+                min={1}
+                value={width}
+                disabled={normalised}
+                onChange={(e) => setWidth(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="openpose-height">Video height (px)</Label>
+              <Input
+                id="openpose-height"
+                type="number"
+                min={1}
+                value={height}
+                disabled={normalised}
+                onChange={(e) => setHeight(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="openpose-fps">Video FPS</Label>
+              <Input
+                id="openpose-fps"
+                type="number"
+                min={0}
+                value={fps}
+                onChange={(e) => setFps(Number(e.target.value))}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={importFrames} disabled={entries.length === 0 || isReading}>Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OpenPoseImportDialog;
@@ -0,0 +1,55 @@
+import { Gauge, LucideIcon, Move3d, Scissors, Spline, Split, Wand2, Waves } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+// Processing tools open as a panel in the sidebar and preview their result in
+// the visualizers before it is applied
+export type ProcessingTool = 'smoothing' | 'gaps' | 'resample' | 'trim' | 'segment' | 'landmarks';
+
+const TOOLS: { id: ProcessingTool; label: string; icon: LucideIcon }[] = [
+  { id: 'smoothing', label: 'Smooth jitter', icon: Waves },
+  { id: 'gaps', label: 'Fill tracking gaps', icon: Spline },
+  { id: 'resample', label: 'Resample frame rate', icon: Gauge },
+  { id: 'trim', label: 'Trim idle frames', icon: Scissors },
+  { id: 'segment', label: 'Segment signs', icon: Split },
+  { id: 'landmarks', label: 'Edit landmarks', icon: Move3d },
+];
+
+interface ProcessMenuProps {
+  active: ProcessingTool | null;
+  onSelect: (tool: ProcessingTool) => void;
+  disabled?: boolean;
+}
+
+const ProcessMenu = ({ active, onSelect, disabled = false }: ProcessMenuProps) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={active ? 'secondary' : 'outline'}
+          size="sm"
+          className="flex items-center gap-1.5 sm:gap-2 whitespace-nowrap"
+          disabled={disabled}
+        >
+          <Wand2 className="w-4 h-4" />
+          <span className="hidden xs:inline">Process</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        {TOOLS.map(({ id, label, icon: Icon }) => (
+          <DropdownMenuItem key={id} onSelect={() => onSelect(id)}>
+            <Icon className="w-4 h-4 mr-2" />
+            <span>{label}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ProcessMenu;
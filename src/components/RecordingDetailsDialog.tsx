@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { Info } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RecordingMetadata } from '@/lib/codecs';
+
+interface RecordingDetailsDialogProps {
+  metadata: RecordingMetadata;
+  onChange: (metadata: RecordingMetadata) => void;
+  disabled?: boolean;
+}
+
+const RecordingDetailsDialog = ({ metadata, onChange, disabled = false }: RecordingDetailsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<RecordingMetadata>(metadata);
+
+  // Start every edit from the recording's current metadata
+  useEffect(() => {
+    if (open) setDraft(metadata);
+  }, [open, metadata]);
+
+  const update = (patch: Partial<RecordingMetadata>) => setDraft((d) => ({ ...d, ...patch }));
+
+  const save = () => {
+    onChange(draft);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-1.5 sm:gap-2 whitespace-nowrap"
+          disabled={disabled}
+        >
+          <Info className="w-4 h-4" />
+          <span className="hidden xs:inline">Details</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Recording details</DialogTitle>
+          <DialogDescription>
+            Saved with the recording in the JSON format. CSV files can't store these fields.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="signer-id">Signer ID</Label>
+            <Input
+              id="signer-id"
+              value={draft.signerId ?? ''}
+              onChange={(e) => update({ signerId: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Dominant hand</Label>
+            <Select
+              value={draft.handedness ?? 'unknown'}
+              onValueChange={(value) => update({ handedness: value === 'unknown' ? undefined : (value as 'left' | 'right') })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unknown">Unknown</SelectItem>
+                <SelectItem value="right">Right</SelectItem>
+                <SelectItem value="left">Left</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="capture-device">Capture device</Label>
+            <Input
+              id="capture-device"
+              value={draft.captureDevice ?? ''}
+              onChange={(e) => update({ captureDevice: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="source-fps">Source FPS</Label>
+            <Input
+              id="source-fps"
+              type="number"
+              min={0}
+              value={draft.sourceFps ?? ''}
+              onChange={(e) => update({ sourceFps: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="model-name">Model</Label>
+            <Input
+              id="model-name"
+              value={draft.model?.name ?? ''}
+              placeholder="e.g. MediaPipe Holistic"
+              onChange={(e) => update({ model: e.target.value ? { ...draft.model, name: e.target.value } : undefined })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="model-version">Model version</Label>
+            <Input
+              id="model-version"
+              value={draft.model?.version ?? ''}
+              disabled={!draft.model?.name}
+              onChange={(e) => update({ model: { name: draft.model?.name ?? '', version: e.target.value || undefined } })}
+            />
+          </div>
+          <div className="col-span-2 space-y-1">
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              rows={3}
+              value={draft.notes ?? ''}
+              onChange={(e) => update({ notes: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={save}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordingDetailsDialog;
@@ -0,0 +1,117 @@
+import { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { HandFrame } from '@/types/hand-data';
+import { COMMON_FRAME_RATES, estimateFrameRate, resampleFrames, resampledLength } from '@/lib/resample';
+
+interface ResamplePanelProps {
+  frames: HandFrame[];
+  assumedFps: number; // Starting guess for recordings without timestamps
+  onApply: (resampled: HandFrame[], fps: number) => void;
+  onClose: () => void;
+}
+
+// Rates the inputs accept; anything outside would build a huge recording or stall playback
+const MIN_FPS = 1;
+const MAX_FPS = 240;
+
+const clampFps = (fps: number) => Math.min(MAX_FPS, Math.max(MIN_FPS, Number.isFinite(fps) ? fps : MIN_FPS));
+const inRange = (fps: number) => fps >= MIN_FPS && fps <= MAX_FPS;
+
+const formatFps = (fps: number) => (Number.isInteger(fps) ? String(fps) : fps.toFixed(2));
+
+const ResamplePanel = ({ frames, assumedFps, onApply, onClose }: ResamplePanelProps) => {
+  const measuredFps = useMemo(() => estimateFrameRate(frames), [frames]);
+  const [sourceFps, setSourceFps] = useState(assumedFps);
+  const [targetFps, setTargetFps] = useState(30);
+
+  const source = measuredFps ?? sourceFps;
+  // A measured rate is taken as it is; typed rates must be within the inputs' range
+  const valid = source > 0 && (measuredFps !== null || inRange(sourceFps)) && inRange(targetFps);
+  const newLength = valid ? resampledLength(frames, targetFps, source) : frames.length;
+  const duration = frames.length > 1 && valid ? (newLength - 1) / targetFps : 0;
+
+  const apply = () => onApply(resampleFrames(frames, targetFps, source), targetFps);
+
+  return (
+    <div className="glass-panel p-3 sm:p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs sm:text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          Resample
+        </h3>
+        <Button variant="ghost" size="icon" className="h-6 w-6 sm:h-8 sm:w-8" onClick={onClose}>
+          <X className="w-3 h-3 sm:w-4 sm:h-4" />
+        </Button>
+      </div>
+
+      {/* Source rate: measured from timestamps, otherwise the user's assumption */}
+      <div className="flex items-center justify-between gap-2 text-[10px] sm:text-xs font-mono text-muted-foreground">
+        <span>Source rate</span>
+        {measuredFps !== null ? (
+          <span className="text-foreground" title="Measured from capture timestamps">{formatFps(measuredFps)} fps</span>
+        ) : (
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              className="h-7 w-16 px-2 text-xs"
+              min={MIN_FPS}
+              max={MAX_FPS}
+              value={sourceFps}
+              onChange={(e) => setSourceFps(Number(e.target.value))}
+              onBlur={() => setSourceFps(clampFps)}
+              title="No timestamps in this recording; frames are assumed to be this far apart"
+            />
+            <span>fps (assumed)</span>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between gap-2 text-[10px] sm:text-xs font-mono text-muted-foreground">
+          <span>Target rate</span>
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              className="h-7 w-16 px-2 text-xs"
+              min={MIN_FPS}
+              max={MAX_FPS}
+              value={targetFps}
+              onChange={(e) => setTargetFps(Number(e.target.value))}
+              onBlur={() => setTargetFps(clampFps)}
+            />
+            <span>fps</span>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {COMMON_FRAME_RATES.map((rate) => (
+            <Button
+              key={rate}
+              variant={rate === targetFps ? 'secondary' : 'outline'}
+              size="sm"
+              className="h-6 px-2 text-[10px] font-mono"
+              onClick={() => setTargetFps(rate)}
+            >
+              {rate}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 pt-2 border-t border-border/50 text-[10px] sm:text-xs font-mono">
+        <div className="text-muted-foreground">Frames</div>
+        <div className="text-right">
+          {frames.length} → <span className="text-primary font-semibold">{newLength}</span>
+        </div>
+        <div className="text-muted-foreground">Duration</div>
+        <div className="text-right">{duration.toFixed(2)} s</div>
+      </div>
+
+      <Button size="sm" className="w-full" onClick={apply} disabled={!valid || frames.length < 2}>
+        Resample to {formatFps(targetFps)} fps
+      </Button>
+    </div>
+  );
+};
+
+export default ResamplePanel;
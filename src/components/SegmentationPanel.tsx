@@ -0,0 +1,133 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { HandFrame } from '@/types/hand-data';
+import { LabelRun, applyLabelRuns, labelColor } from '@/lib/label-track';
+import { DEFAULT_SEGMENTATION, SegmentCue, SegmentationOptions, segmentSigns } from '@/lib/segmentation';
+
+interface SegmentationPanelProps {
+  frames: HandFrame[];
+  fps: number; // Frame spacing for recordings without timestamps
+  onProposalChange: (runs: LabelRun[] | null) => void; // Shown on the label track
+  onApply: (labelled: HandFrame[]) => void;
+  onSeek: (frame: number) => void;
+  onClose: () => void;
+}
+
+const CUE_NAMES: Record<SegmentCue, string> = {
+  pause: 'after a pause',
+  handshape: 'handshape change',
+  velocity: 'velocity minimum',
+};
+
+const SLIDERS: { key: keyof SegmentationOptions; name: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'pauseSpeed', name: 'Pause below', min: 0.05, max: 1.5, step: 0.05, unit: 'widths/s' },
+  { key: 'minPause', name: 'Min pause', min: 0.05, max: 1, step: 0.05, unit: 's' },
+  { key: 'handshapeChange', name: 'Handshape change', min: 0.05, max: 1, step: 0.05, unit: '' },
+  { key: 'minSegment', name: 'Min sign length', min: 0.1, max: 1.5, step: 0.05, unit: 's' },
+];
+
+const SegmentationPanel = ({ frames, fps, onProposalChange, onApply, onSeek, onClose }: SegmentationPanelProps) => {
+  const [options, setOptions] = useState<SegmentationOptions>(DEFAULT_SEGMENTATION);
+  // Names typed for each segment, by its start frame, so a name stays with its sign
+  // when a threshold change or an edit adds or removes segments around it
+  const [names, setNames] = useState<Record<number, string>>({});
+  // Label for the pauses between signs; empty keeps their current labels
+  const [pauseLabel, setPauseLabel] = useState('');
+
+  const segments = useMemo(() => segmentSigns(frames, fps, options), [frames, fps, options]);
+  const runs = useMemo<LabelRun[]>(
+    () => segments.map((s, i) => ({ start: s.start, end: s.end, label: names[s.start]?.trim() || `Sign ${i + 1}` })),
+    [segments, names]
+  );
+
+  useEffect(() => {
+    onProposalChange(runs.length > 0 ? runs : null);
+  }, [runs, onProposalChange]);
+
+  useEffect(() => () => onProposalChange(null), [onProposalChange]);
+
+  const apply = () => {
+    const pauses = pauseLabel.trim() ? [{ start: 0, end: frames.length, label: pauseLabel.trim() }] : [];
+    onApply(applyLabelRuns(frames, [...pauses, ...runs]));
+  };
+
+  return (
+    <div className="glass-panel p-3 sm:p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs sm:text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          Segment signs
+        </h3>
+        <Button variant="ghost" size="icon" className="h-6 w-6 sm:h-8 sm:w-8" onClick={onClose}>
+          <X className="w-3 h-3 sm:w-4 sm:h-4" />
+        </Button>
+      </div>
+
+      {SLIDERS.map(({ key, name, min, max, step, unit }) => (
+        <div key={key} className="space-y-1.5">
+          <div className="flex items-center justify-between text-[10px] sm:text-xs font-mono text-muted-foreground">
+            <span>{name}</span>
+            <span className="text-primary font-semibold">
+              {options[key].toFixed(2)} {unit}
+            </span>
+          </div>
+          <Slider
+            value={[options[key]]}
+            min={min}
+            max={max}
+            step={step}
+            onValueChange={([value]) => setOptions((o) => ({ ...o, [key]: value }))}
+          />
+        </div>
+      ))}
+
+      <div className="space-y-1.5 pt-2 border-t border-border/50">
+        <p className="text-[10px] sm:text-xs text-muted-foreground">
+          {segments.length === 0
+            ? 'No signs found; try a lower pause speed.'
+            : `${segments.length} ${segments.length === 1 ? 'sign' : 'signs'} found. Name them to label their frames.`}
+        </p>
+        {segments.length > 0 && (
+          <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+            {segments.map((segment, i) => (
+              <div key={`${segment.start}-${segment.end}`} className="flex items-center gap-1.5">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: labelColor(runs[i].label) }} />
+                <Input
+                  className="h-7 px-2 text-xs"
+                  placeholder={`Sign ${i + 1}`}
+                  value={names[segment.start] ?? ''}
+                  onChange={(e) => setNames((n) => ({ ...n, [segment.start]: e.target.value }))}
+                />
+                <button
+                  onClick={() => onSeek(segment.start)}
+                  className="shrink-0 px-1.5 py-0.5 rounded text-[10px] font-mono border border-primary/40 text-primary"
+                  title={`Jump to frame ${segment.start + 1} (${CUE_NAMES[segment.cue]})`}
+                >
+                  {segment.start + 1}–{segment.end}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-[10px] sm:text-xs font-mono text-muted-foreground">
+        <span className="shrink-0">Between signs</span>
+        <Input
+          className="h-7 px-2 text-xs"
+          placeholder="Keep current labels"
+          value={pauseLabel}
+          onChange={(e) => setPauseLabel(e.target.value)}
+        />
+      </div>
+
+      <Button size="sm" className="w-full" onClick={apply} disabled={segments.length === 0}>
+        Write labels
+      </Button>
+    </div>
+  );
+};
+
+export default SegmentationPanel;
@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { HandFrame } from '@/types/hand-data';
+import {
+  JOINT_GROUPS,
+  JointGroup,
+  SMOOTHING_METHODS,
+  SmoothingMethod,
+  SmoothingSettings,
+  defaultSmoothingSettings,
+  getSmoothingMethod,
+  measureJitter,
+  smoothFrames,
+} from '@/lib/smoothing';
+
+interface SmoothingPanelProps {
+  frames: HandFrame[];
+  fps: number; // Frame spacing for recordings without timestamps
+  onPreviewChange: (smoothed: HandFrame[] | null) => void; // null shows the original frames
+  onApply: (smoothed: HandFrame[]) => void;
+  onClose: () => void;
+}
+
+const SmoothingPanel = ({ frames, fps, onPreviewChange, onApply, onClose }: SmoothingPanelProps) => {
+  const [settings, setSettings] = useState<SmoothingSettings>(() => defaultSmoothingSettings());
+  const [showSmoothed, setShowSmoothed] = useState(true);
+
+  const method = getSmoothingMethod(settings.method);
+  const smoothed = useMemo(() => smoothFrames(frames, settings, fps), [frames, settings, fps]);
+  const jitter = useMemo(
+    () => ({ before: measureJitter(frames), after: measureJitter(smoothed) }),
+    [frames, smoothed]
+  );
+
+  useEffect(() => {
+    onPreviewChange(showSmoothed ? smoothed : null);
+  }, [showSmoothed, smoothed, onPreviewChange]);
+
+  // Back to the original frames when the panel goes away
+  useEffect(() => () => onPreviewChange(null), [onPreviewChange]);
+
+  const updateGroup = (group: JointGroup, patch: { enabled?: boolean; params?: Record<string, number> }) => {
+    setSettings((s) => ({
+      ...s,
+      groups: {
+        ...s.groups,
+        [group]: {
+          enabled: patch.enabled ?? s.groups[group].enabled,
+          params: { ...s.groups[group].params, ...patch.params },
+        },
+      },
+    }));
+  };
+
+  const reduction = jitter.before && jitter.after !== null ? 1 - jitter.after / jitter.before : null;
+
+  return (
+    <div className="glass-panel p-3 sm:p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs sm:text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          Smoothing
+        </h3>
+        <Button variant="ghost" size="icon" className="h-6 w-6 sm:h-8 sm:w-8" onClick={onClose}>
+          <X className="w-3 h-3 sm:w-4 sm:h-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        <Select
+          value={settings.method}
+          onValueChange={(value) => setSettings(defaultSmoothingSettings(value as SmoothingMethod))}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SMOOTHING_METHODS.map((m) => (
+              <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-[10px] sm:text-xs text-muted-foreground">{method.description}</p>
+      </div>
+
+      {/* Per joint group: on/off and the method's parameters */}
+      <div className="space-y-2">
+        {JOINT_GROUPS.map((group) => {
+          const groupSettings = settings.groups[group.id];
+          return (
+            <div key={group.id} className="space-y-1">
+              <div className="flex items-center justify-between text-xs">
+                <span className={groupSettings.enabled ? 'text-foreground' : 'text-muted-foreground'}>{group.name}</span>
+                <Switch
+                  checked={groupSettings.enabled}
+                  onCheckedChange={(enabled) => updateGroup(group.id, { enabled })}
+                  className="scale-75"
+                />
+              </div>
+              {groupSettings.enabled && (
+                <div className="grid grid-cols-3 gap-1.5">
+                  {method.params.map((param) => (
+                    <Input
+                      key={param.key}
+                      type="number"
+                      className="h-7 px-2 text-xs"
+                      title={param.name}
+                      min={param.min}
+                      max={param.max}
+                      step={param.step}
+                      value={groupSettings.params[param.key]}
+                      onChange={(e) => {
+                        // Out-of-range values are clamped when filtering, so typing stays free
+                        const value = Number(e.target.value);
+                        if (e.target.value !== '' && Number.isFinite(value)) {
+                          updateGroup(group.id, { params: { [param.key]: value } });
+                        }
+                      }}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <p className="text-[10px] text-muted-foreground/70">
+          {method.params.map((param) => param.name).join(' · ')}
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between text-[10px] sm:text-xs font-mono text-muted-foreground pt-2 border-t border-border/50">
+        <span>Preview smoothed</span>
+        <Switch checked={showSmoothed} onCheckedChange={setShowSmoothed} className="scale-75" />
+      </div>
+      {reduction !== null && (
+        <p className="text-[10px] sm:text-xs font-mono text-muted-foreground" title="Mean frame-to-frame acceleration of the hand landmarks">
+          Jitter {jitter.before!.toFixed(4)} → {jitter.after!.toFixed(4)}{' '}
+          <span className="text-primary">({Math.round(reduction * -100)}%)</span>
+        </p>
+      )}
+
+      <Button size="sm" className="w-full" onClick={() => onApply(smoothed)} disabled={frames.length === 0}>
+        Apply and save
+      </Button>
+    </div>
+  );
+};
+
+export default SmoothingPanel;
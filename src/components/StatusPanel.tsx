@@ -1,14 +1,17 @@
 import { Hand, Activity } from 'lucide-react';
-import { HandFrame, isHandVisible } from '@/types/hand-data';
+import { HandFrame, isHandVisible, averageConfidence } from '@/types/hand-data';
 
 interface StatusPanelProps {
   frame: HandFrame | null;
   fps: number;
+  playbackSpeed?: number; // Set when playing back by capture timestamps
 }
 
-const StatusPanel = ({ frame, fps }: StatusPanelProps) => {
-  const leftVisible = frame ? isHandVisible(frame.leftHand) : false;
-  const rightVisible = frame ? isHandVisible(frame.rightHand) : false;
+const StatusPanel = ({ frame, fps, playbackSpeed }: StatusPanelProps) => {
+  const leftVisible = frame ? isHandVisible(frame.leftHand, frame.leftConfidence) : false;
+  const rightVisible = frame ? isHandVisible(frame.rightHand, frame.rightConfidence) : false;
+  const leftConfidence = averageConfidence(frame?.leftConfidence);
+  const rightConfidence = averageConfidence(frame?.rightConfidence);
 
   return (
     <div className="glass-panel p-3 sm:p-4 space-y-2 sm:space-y-3">
@@ -26,8 +29,13 @@ const StatusPanel = ({ frame, fps }: StatusPanelProps) => {
           <span className={`text-[10px] sm:text-xs font-medium ${leftVisible ? 'text-leftHand' : 'text-muted-foreground'}`}>
             Left
           </span>
+          {leftConfidence !== null && (
+            <span className="ml-auto text-[10px] font-mono text-muted-foreground" title="Mean landmark confidence">
+              {Math.round(leftConfidence * 100)}%
+            </span>
+          )}
           <span className={`
-            ml-auto w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full
+            ${leftConfidence !== null ? 'ml-1' : 'ml-auto'} w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full
             ${leftVisible ? 'bg-leftHand animate-pulse' : 'bg-muted-foreground/30'}
           `} />
         </div>
@@ -41,18 +49,32 @@ const StatusPanel = ({ frame, fps }: StatusPanelProps) => {
           <span className={`text-[10px] sm:text-xs font-medium ${rightVisible ? 'text-rightHand' : 'text-muted-foreground'}`}>
             Right
           </span>
+          {rightConfidence !== null && (
+            <span className="ml-auto text-[10px] font-mono text-muted-foreground" title="Mean landmark confidence">
+              {Math.round(rightConfidence * 100)}%
+            </span>
+          )}
           <span className={`
-            ml-auto w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full
+            ${rightConfidence !== null ? 'ml-1' : 'ml-auto'} w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full
             ${rightVisible ? 'bg-rightHand animate-pulse' : 'bg-muted-foreground/30'}
           `} />
         </div>
       </div>
 
+      {/* Hands synthesised by gap filling */}
+      {(frame?.leftInterpolated || frame?.rightInterpolated) && (
+        <p className="text-[10px] sm:text-xs text-muted-foreground" title="Filled in from neighbouring frames over a tracking gap">
+          Interpolated: {[frame.leftInterpolated && 'left', frame.rightInterpolated && 'right'].filter(Boolean).join(' & ')} hand
+        </p>
+      )}
+
       {/* FPS */}
       <div className="flex items-center gap-1.5 sm:gap-2 px-2 sm:px-3 py-1.5 sm:py-2 rounded-lg bg-muted/30 border border-border/30">
         <Activity className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-primary" />
         <span className="text-[10px] sm:text-xs font-medium text-muted-foreground">Playback</span>
-        <span className="ml-auto text-[10px] sm:text-xs font-mono text-primary">{fps} FPS</span>
+        <span className="ml-auto text-[10px] sm:text-xs font-mono text-primary">
+          {playbackSpeed !== undefined ? `${playbackSpeed}× real time` : `${fps} FPS`}
+        </span>
       </div>
     </div>
   );
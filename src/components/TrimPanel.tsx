@@ -0,0 +1,174 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { HandFrame, frameTimes } from '@/types/hand-data';
+import { DEFAULT_TRIM, FrameRange, TrimOptions, analyzeMotion, trimFrames } from '@/lib/trim';
+
+interface TrimPanelProps {
+  frames: HandFrame[];
+  fps: number; // Frame spacing for recordings without timestamps
+  currentFrame: number;
+  onProposalChange: (range: FrameRange | null) => void; // Shown as trim markers on the timeline
+  onApply: (trimmed: HandFrame[], range: FrameRange) => void;
+  onSeek: (frame: number) => void;
+  onClose: () => void;
+}
+
+// Motion-energy graph size (viewBox units)
+const GRAPH_WIDTH = 200;
+const GRAPH_HEIGHT = 40;
+
+const TrimPanel = ({ frames, fps, currentFrame, onProposalChange, onApply, onSeek, onClose }: TrimPanelProps) => {
+  const [options, setOptions] = useState<TrimOptions>(DEFAULT_TRIM);
+  // Start/end moved by hand; cleared whenever the detection settings change
+  const [override, setOverride] = useState<FrameRange | null>(null);
+
+  const analysis = useMemo(() => analyzeMotion(frames, fps, options), [frames, fps, options]);
+  const times = useMemo(() => frameTimes(frames, fps), [frames, fps]);
+  const range = override ?? analysis.bounds;
+  const removed = range ? frames.length - (range.end - range.start) : 0;
+
+  useEffect(() => {
+    onProposalChange(range);
+  }, [range, onProposalChange]);
+
+  useEffect(() => () => onProposalChange(null), [onProposalChange]);
+
+  const updateOptions = (patch: Partial<TrimOptions>) => {
+    setOptions((o) => ({ ...o, ...patch }));
+    setOverride(null);
+  };
+
+  const setStart = (start: number) =>
+    range && setOverride({ start: Math.min(start, range.end - 1), end: range.end });
+  const setEnd = (end: number) =>
+    range && setOverride({ start: range.start, end: Math.max(end, range.start + 1) });
+
+  // Energy line, scaled so the sensitivity sits at mid-height
+  const graph = useMemo(() => {
+    const top = Math.max(options.sensitivity * 2, ...analysis.energy);
+    const x = (i: number) => (frames.length > 1 ? (i / (frames.length - 1)) * GRAPH_WIDTH : 0);
+    const y = (e: number) => GRAPH_HEIGHT - (Math.min(e, top) / top) * GRAPH_HEIGHT;
+    return {
+      path: analysis.energy.map((e, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(e).toFixed(1)}`).join(''),
+      threshold: y(options.sensitivity),
+      x,
+    };
+  }, [analysis.energy, options.sensitivity, frames.length]);
+
+  const boundRow = (name: string, frame: number, onSet: (frame: number) => void) => (
+    <div className="flex items-center justify-between gap-2 text-[10px] sm:text-xs font-mono text-muted-foreground">
+      <span>{name}</span>
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => onSeek(frame)}
+          className="px-1.5 py-0.5 rounded border border-primary/40 text-primary"
+          title={`Jump to frame ${frame + 1}`}
+        >
+          {frame + 1} · {(times[frame] - times[0]).toFixed(2)} s
+        </button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-1.5 text-[10px]"
+          onClick={() => onSet(currentFrame)}
+          title="Use the current frame"
+        >
+          Set
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="glass-panel p-3 sm:p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs sm:text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          Trim idle frames
+        </h3>
+        <Button variant="ghost" size="icon" className="h-6 w-6 sm:h-8 sm:w-8" onClick={onClose}>
+          <X className="w-3 h-3 sm:w-4 sm:h-4" />
+        </Button>
+      </div>
+
+      {/* Wrist speed over the recording; shaded parts are cut */}
+      <svg viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`} className="w-full h-10" preserveAspectRatio="none">
+        {range && (
+          <>
+            <rect x={0} y={0} width={graph.x(range.start)} height={GRAPH_HEIGHT} className="fill-destructive/20" />
+            <rect
+              x={graph.x(range.end - 1)}
+              y={0}
+              width={GRAPH_WIDTH - graph.x(range.end - 1)}
+              height={GRAPH_HEIGHT}
+              className="fill-destructive/20"
+            />
+          </>
+        )}
+        <line
+          x1={0}
+          x2={GRAPH_WIDTH}
+          y1={graph.threshold}
+          y2={graph.threshold}
+          className="stroke-muted-foreground/50"
+          strokeDasharray="3 3"
+          vectorEffect="non-scaling-stroke"
+        />
+        <path d={graph.path} fill="none" className="stroke-primary" vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between text-[10px] sm:text-xs font-mono text-muted-foreground">
+          <span>Sensitivity</span>
+          <span className="text-primary font-semibold">{options.sensitivity.toFixed(1)} widths/s</span>
+        </div>
+        <Slider
+          value={[options.sensitivity]}
+          min={0.1}
+          max={3}
+          step={0.1}
+          onValueChange={([sensitivity]) => updateOptions({ sensitivity })}
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between text-[10px] sm:text-xs font-mono text-muted-foreground">
+          <span>Padding</span>
+          <span className="text-primary font-semibold">{options.padding.toFixed(2)} s</span>
+        </div>
+        <Slider
+          value={[options.padding]}
+          min={0}
+          max={1}
+          step={0.05}
+          onValueChange={([padding]) => updateOptions({ padding })}
+        />
+      </div>
+
+      <div className="space-y-1.5 pt-2 border-t border-border/50">
+        {range ? (
+          <>
+            {boundRow('Start', range.start, setStart)}
+            {boundRow('End', range.end - 1, (frame) => setEnd(frame + 1))}
+          </>
+        ) : (
+          <p className="text-[10px] sm:text-xs text-muted-foreground">
+            No signing detected; try a lower sensitivity.
+          </p>
+        )}
+      </div>
+
+      <Button
+        size="sm"
+        className="w-full"
+        onClick={() => range && onApply(trimFrames(frames, range), range)}
+        disabled={!range || removed === 0}
+      >
+        Trim {removed} {removed === 1 ? 'frame' : 'frames'}
+      </Button>
+    </div>
+  );
+};
+
+export default TrimPanel;
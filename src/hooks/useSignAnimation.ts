@@ -1,16 +1,104 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
-import Papa from 'papaparse';
-import { HandFrame, RawCSVRow, parseCSVRow } from '@/types/hand-data';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { toast } from 'sonner';
+import { HandFrame, hasTimestamps, findFrameAtTime } from '@/types/hand-data';
+import {
+  decodeRecording,
+  getCodec,
+  encodeRecording,
+  exportFileName,
+  stripExtension,
+  isCSVFile,
+  parseCSVInWorker,
+  isAbortError,
+  hasValidationFindings,
+  CSVValidationReport,
+  RecordingMetadata,
+  SignRecording,
+} from '@/lib/codecs';
+import { ExportOptions, getExporter } from '@/lib/exporters';
+import { downloadBlob } from '@/lib/download';
+import {
+  EditSideEffects,
+  HistoryEntry,
+  applyPatch,
+  capHistory,
+  diffFrames,
+  isEmptyPatch,
+  packPatch,
+  revertPatch,
+  storedBytes,
+} from '@/lib/frame-history';
+import { FrameRange } from '@/lib/trim';
+import {
+  clampRange,
+  copyRange,
+  deleteRange,
+  duplicateRange,
+  insertFrames,
+  rangeLength,
+  reverseRange,
+  stretchRange,
+} from '@/lib/frame-range';
+
+// 'timestamps' advances by real elapsed time using per-frame `t`,
+// 'fps' steps one frame per 1/fps seconds (legacy files without timestamps)
+export type PlaybackMode = 'timestamps' | 'fps';
+
+// Undo stack (oldest first) and redo stack (next redo last); `truncated` once
+// the oldest edits have been dropped to stay within the memory cap
+interface EditHistory {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+  truncated: boolean;
+}
+
+const EMPTY_HISTORY: EditHistory = { undo: [], redo: [], truncated: false };
+
+interface LoadFileOptions {
+  // Shown the report for a CSV whose values look wrong; the parsed frames are
+  // only loaded if it resolves true
+  reviewCSV?: (report: CSVValidationReport) => Promise<boolean>;
+}
+
+// "1 frame", "12 frames", for history labels
+const frameCount = (count: number) => `${count} ${count === 1 ? 'frame' : 'frames'}`;
 
 interface UseSignAnimationReturn {
   frames: HandFrame[];
   currentFrame: number;
   isPlaying: boolean;
   isLoading: boolean;
+  loadProgress: number | null;
+  cancelLoading: () => void;
   fileName: string | null;
-  loadFile: (file: File) => void;
-  loadFromUrl: (url: string) => void;
-  loadFrames: (frames: HandFrame[], name: string) => void;
+  metadata: RecordingMetadata;
+  setMetadata: (metadata: RecordingMetadata) => void;
+  loadFile: (file: File, options?: LoadFileOptions) => Promise<void>;
+  loadFromUrl: (url: string) => Promise<void>;
+  loadFrames: (frames: HandFrame[], name: string, metadata?: RecordingMetadata) => void;
+  // Edit the loaded recording, keeping the playhead; recorded for undo under `label`
+  // `effects` also change the header or playback rate, and are undone with the frames
+  editFrames: (frames: HandFrame[], label: string, effects?: EditSideEffects) => void;
+  undo: () => void;
+  redo: () => void;
+  undoLabel: string | null; // What undo would revert, null when there's nothing to undo
+  redoLabel: string | null;
+  history: HistoryEntry[]; // Every edit in order, done and undone
+  historyPosition: number; // How many of them are applied
+  historyTruncated: boolean; // Older edits were dropped to save memory
+  historyBytes: number; // Memory held for undo/redo, estimated
+  goToHistory: (position: number) => void; // Undo or redo until `position` edits are applied
+  selection: FrameRange | null; // Frames picked on the timeline for the range operations below
+  setSelection: (range: FrameRange | null) => void;
+  clipboardSize: number; // Frames copied or cut, 0 when there is nothing to paste
+  copySelection: () => void;
+  cutSelection: () => void;
+  pasteFrames: () => void; // Inserts the clipboard before the current frame
+  deleteSelection: () => void;
+  cropToSelection: () => void;
+  duplicateSelection: () => void;
+  reverseSelection: () => void;
+  stretchSelection: (factor: number) => void; // factor > 1 slows the range down
   play: () => void;
   pause: () => void;
   togglePlay: () => void;
@@ -18,7 +106,14 @@ interface UseSignAnimationReturn {
   setFrame: (frame: number) => void;
   fps: number;
   setFps: (fps: number) => void;
+  playbackMode: PlaybackMode;
+  canUseTimestamps: boolean;
+  setPlaybackMode: (mode: PlaybackMode) => void;
+  playbackSpeed: number;
+  setPlaybackSpeed: (speed: number) => void;
   downloadCSV: () => void;
+  downloadAs: (codecId: string) => void;
+  exportAnimation: (exporterId: string, options?: Partial<ExportOptions>) => Promise<void>;
 }
 
 export const useSignAnimation = (): UseSignAnimationReturn => {
@@ -26,145 +121,314 @@ export const useSignAnimation = (): UseSignAnimationReturn => {
   const [currentFrame, setCurrentFrame] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // Rows parsed so far while a CSV streams in through the worker
+  const [loadProgress, setLoadProgress] = useState<number | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [metadata, setMetadata] = useState<RecordingMetadata>({});
   const [fps, setFps] = useState(12);
+  const [preferTimestamps, setPreferTimestamps] = useState(true);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  // Edits made through editFrames; cleared when a different recording is loaded
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [selection, setSelectionState] = useState<FrameRange | null>(null);
+  // Kept across recordings, so frames can be copied from one take into another
+  const [clipboard, setClipboard] = useState<HandFrame[]>([]);
   
   const animationRef = useRef<number | null>(null);
   const lastTimeRef = useRef<number>(0);
+  // Playback position in ms relative to the first frame (timestamp mode only)
+  const playheadRef = useRef<number>(0);
+  const loadAbortRef = useRef<AbortController | null>(null);
 
-  const parseCSV = useCallback((csvText: string) => {
-    const result = Papa.parse<RawCSVRow>(csvText, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true,
-    });
+  const canUseTimestamps = useMemo(() => hasTimestamps(frames), [frames]);
+  const playbackMode: PlaybackMode = canUseTimestamps && preferTimestamps ? 'timestamps' : 'fps';
+
+  const setPlaybackMode = useCallback((mode: PlaybackMode) => {
+    setPreferTimestamps(mode === 'timestamps');
+    // Start real-time playback from the frame currently on screen
+    if (mode === 'timestamps' && frames[currentFrame]?.t !== undefined && frames[0]?.t !== undefined) {
+      playheadRef.current = frames[currentFrame].t! - frames[0].t!;
+    }
+  }, [frames, currentFrame]);
 
-    const parsedFrames = result.data.map(parseCSVRow);
-    setFrames(parsedFrames);
+  const applyDecoded = useCallback((name: string, recording: SignRecording) => {
+    setFrames(recording.frames);
+    setHistory(EMPTY_HISTORY);
+    setSelectionState(null);
+    setMetadata(recording.metadata ?? {});
+    setFileName(name);
     setCurrentFrame(0);
+    playheadRef.current = 0;
     setIsPlaying(true);
   }, []);
 
-  const loadFile = useCallback((file: File) => {
-    setIsLoading(true);
-    setFileName(file.name);
-    
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      parseCSV(text);
-      setIsLoading(false);
-    };
-    reader.readAsText(file);
-  }, [parseCSV]);
+  // CSV is parsed in a worker with progress; the other formats are compact enough to decode inline
+  const readRecording = useCallback(async (
+    name: string,
+    source: Blob,
+    signal: AbortSignal
+  ): Promise<{ recording: SignRecording; report?: CSVValidationReport }> => {
+    if (isCSVFile(name)) {
+      setLoadProgress(0);
+      const file = source instanceof File ? source : new File([source], name);
+      const { frames, report } = await parseCSVInWorker(file, { onProgress: setLoadProgress, signal });
+      return { recording: { frames }, report };
+    }
+    return { recording: decodeRecording(name, await source.arrayBuffer()) };
+  }, []);
 
-  const loadFromUrl = useCallback(async (url: string) => {
+  // Shared by file and URL loading; a new load cancels one still in progress
+  const loadRecording = useCallback(async (
+    name: string,
+    getSource: (signal: AbortSignal) => Promise<Blob>,
+    { reviewCSV }: LoadFileOptions = {}
+  ) => {
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
     setIsLoading(true);
-    setFileName(url.split('/').pop() || 'data.csv');
-    
+
     try {
-      const response = await fetch(url);
-      const text = await response.text();
-      parseCSV(text);
+      const { recording, report } = await readRecording(name, await getSource(controller.signal), controller.signal);
+      if (reviewCSV && report && hasValidationFindings(report)) {
+        setIsLoading(false);
+        setLoadProgress(null);
+        const accepted = await reviewCSV(report);
+        // A load started while the report was open replaces this one
+        if (loadAbortRef.current !== controller) return;
+        if (accepted) applyDecoded(name, recording);
+        loadAbortRef.current = null;
+        return;
+      }
+      applyDecoded(name, recording);
     } catch (error) {
-      console.error('Failed to load CSV:', error);
+      if (isAbortError(error)) {
+        if (loadAbortRef.current !== controller) return;
+        toast(`Stopped loading ${name}`);
+      } else {
+        console.error('Failed to load recording:', error);
+        toast.error(`Could not load ${name}`, { description: (error as Error).message });
+      }
+    }
+    if (loadAbortRef.current === controller) {
+      loadAbortRef.current = null;
+      setIsLoading(false);
+      setLoadProgress(null);
     }
-    setIsLoading(false);
-  }, [parseCSV]);
+  }, [readRecording, applyDecoded]);
+
+  const loadFile = useCallback(async (file: File, options?: LoadFileOptions) => {
+    await loadRecording(file.name, async () => file, options);
+  }, [loadRecording]);
+
+  const loadFromUrl = useCallback(async (url: string) => {
+    const name = url.split('/').pop() || 'data.csv';
+    await loadRecording(name, async (signal) => {
+      const response = await fetch(url, { signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return response.blob();
+    });
+  }, [loadRecording]);
+
+  const cancelLoading = useCallback(() => {
+    loadAbortRef.current?.abort();
+  }, []);
 
-  const loadFrames = useCallback((newFrames: HandFrame[], name: string) => {
+  // Metadata is kept when omitted, so edited frames re-save with their original header
+  const loadFrames = useCallback((newFrames: HandFrame[], name: string, newMetadata?: RecordingMetadata) => {
     setFrames(newFrames);
+    setHistory(EMPTY_HISTORY);
+    setSelectionState(null);
     setFileName(name);
+    if (newMetadata) {
+      setMetadata(newMetadata);
+    }
     setCurrentFrame(0);
+    playheadRef.current = 0;
     setIsPlaying(true);
   }, []);
 
+  // Show `frame` of a version of the recording that is about to replace the current one
+  const seekIn = useCallback((list: HandFrame[], frame: number) => {
+    const clamped = Math.max(0, Math.min(frame, list.length - 1));
+    setCurrentFrame(clamped);
+    if (list[clamped]?.t !== undefined && list[0]?.t !== undefined) {
+      playheadRef.current = list[clamped].t! - list[0].t!;
+    }
+  }, []);
+
+  // Record an edit for undo and show `frame` of the result
+  const commitEdit = useCallback((newFrames: HandFrame[], label: string, frame: number, effects: EditSideEffects = {}) => {
+    // The frames this edit replaced are off screen from now on
+    const patch = packPatch(diffFrames(frames, newFrames), 'removed');
+    if (isEmptyPatch(patch) && !effects.metadata && effects.fps === undefined) return false;
+    setFrames(newFrames);
+    if (effects.metadata) setMetadata(effects.metadata);
+    if (effects.fps !== undefined) setFps(effects.fps);
+    seekIn(newFrames, frame);
+    // Edits that change the length leave the selection on frames that moved or
+    // are gone; selection edits set their own range after this
+    setSelectionState((range) => range && clampRange(range, newFrames.length));
+    const entry: HistoryEntry = {
+      label,
+      patch,
+      frame: currentFrame,
+      metadata: effects.metadata && { before: metadata, after: effects.metadata },
+      fps: effects.fps === undefined ? undefined : { before: fps, after: effects.fps },
+    };
+    setHistory((h) => {
+      const undo = capHistory([...h.undo, entry]);
+      return { undo, redo: [], truncated: h.truncated || undo.length <= h.undo.length };
+    });
+    return true;
+  }, [frames, metadata, fps, currentFrame, seekIn]);
+
+  const editFrames = useCallback((newFrames: HandFrame[], label: string, effects?: EditSideEffects) => {
+    commitEdit(newFrames, label, currentFrame, effects);
+  }, [commitEdit, currentFrame]);
+
+  // Step through the history one patch at a time until `position` edits are applied
+  const goToHistory = useCallback((position: number) => {
+    const undo = [...history.undo];
+    const redo = [...history.redo];
+    let restored = frames;
+    let restoredMetadata = metadata;
+    let restoredFps = fps;
+    let frame = currentFrame;
+    while (undo.length > Math.max(0, position)) {
+      const entry = undo.pop()!;
+      restored = revertPatch(restored, entry.patch);
+      restoredMetadata = entry.metadata?.before ?? restoredMetadata;
+      restoredFps = entry.fps?.before ?? restoredFps;
+      frame = entry.frame;
+      redo.push({ ...entry, patch: packPatch(entry.patch, 'inserted') });
+    }
+    while (undo.length < position && redo.length > 0) {
+      const entry = redo.pop()!;
+      restored = applyPatch(restored, entry.patch);
+      restoredMetadata = entry.metadata?.after ?? restoredMetadata;
+      restoredFps = entry.fps?.after ?? restoredFps;
+      frame = entry.frame;
+      undo.push(entry);
+    }
+    if (undo.length === history.undo.length) return;
+
+    setFrames(restored);
+    if (restoredMetadata !== metadata) setMetadata(restoredMetadata);
+    if (restoredFps !== fps) setFps(restoredFps);
+    seekIn(restored, frame);
+    setSelectionState(null);
+    setHistory({ undo, redo, truncated: history.truncated });
+  }, [frames, metadata, fps, currentFrame, history, seekIn]);
+
+  const undo = useCallback(() => goToHistory(history.undo.length - 1), [goToHistory, history.undo.length]);
+  const redo = useCallback(() => goToHistory(history.undo.length + 1), [goToHistory, history.undo.length]);
+
+  const setSelection = useCallback((range: FrameRange | null) => {
+    setSelectionState(range && clampRange(range, frames.length));
+  }, [frames.length]);
+
+  const copySelection = useCallback(() => {
+    if (selection) setClipboard(copyRange(frames, selection));
+  }, [frames, selection]);
+
+  const deleteSelection = useCallback(() => {
+    // A recording keeps at least one frame; cropping is the way to keep only part of it
+    if (!selection || rangeLength(selection) >= frames.length) return;
+    commitEdit(deleteRange(frames, selection), `Delete ${frameCount(rangeLength(selection))}`, selection.start);
+    setSelectionState(null);
+  }, [frames, selection, commitEdit]);
+
+  const cutSelection = useCallback(() => {
+    if (!selection || rangeLength(selection) >= frames.length) return;
+    setClipboard(copyRange(frames, selection));
+    commitEdit(deleteRange(frames, selection), `Cut ${frameCount(rangeLength(selection))}`, selection.start);
+    setSelectionState(null);
+  }, [frames, selection, commitEdit]);
+
+  const pasteFrames = useCallback(() => {
+    if (clipboard.length === 0) return;
+    const at = Math.min(currentFrame, frames.length);
+    if (commitEdit(insertFrames(frames, at, clipboard), `Paste ${frameCount(clipboard.length)}`, at)) {
+      setSelectionState({ start: at, end: at + clipboard.length });
+    }
+  }, [frames, clipboard, currentFrame, commitEdit]);
+
+  const cropToSelection = useCallback(() => {
+    // Cropping to nothing would empty the recording, and to everything changes nothing
+    const range = selection && clampRange(selection, frames.length);
+    if (!range || rangeLength(range) >= frames.length) return;
+    const cropped = copyRange(frames, range);
+    if (commitEdit(cropped, `Crop to ${frameCount(cropped.length)}`, currentFrame - range.start)) {
+      setSelectionState({ start: 0, end: cropped.length });
+    }
+  }, [frames, selection, currentFrame, commitEdit]);
+
+  const duplicateSelection = useCallback(() => {
+    if (!selection) return;
+    const copy = { start: selection.end, end: selection.end + rangeLength(selection) };
+    if (commitEdit(duplicateRange(frames, selection), `Duplicate ${frameCount(rangeLength(selection))}`, copy.start)) {
+      setSelectionState(copy);
+    }
+  }, [frames, selection, commitEdit]);
+
+  const reverseSelection = useCallback(() => {
+    if (!selection) return;
+    commitEdit(reverseRange(frames, selection), `Reverse ${frameCount(rangeLength(selection))}`, currentFrame);
+  }, [frames, selection, currentFrame, commitEdit]);
+
+  const stretchSelection = useCallback((factor: number) => {
+    if (!selection) return;
+    const stretched = stretchRange(frames, selection, factor);
+    const end = selection.end + stretched.length - frames.length;
+    if (commitEdit(stretched, `Stretch ${frameCount(rangeLength(selection))} ${factor}×`, selection.start)) {
+      setSelectionState({ start: selection.start, end });
+    }
+  }, [frames, selection, commitEdit]);
+
   const play = useCallback(() => setIsPlaying(true), []);
   const pause = useCallback(() => setIsPlaying(false), []);
   const togglePlay = useCallback(() => setIsPlaying((p) => !p), []);
   
   const reset = useCallback(() => {
     setCurrentFrame(0);
+    playheadRef.current = 0;
     setIsPlaying(false);
   }, []);
 
   const setFrame = useCallback((frame: number) => {
-    setCurrentFrame(Math.max(0, Math.min(frame, frames.length - 1)));
-  }, [frames.length]);
+    const clamped = Math.max(0, Math.min(frame, frames.length - 1));
+    setCurrentFrame(clamped);
+    // Keep the real-time playhead in step with manual scrubbing
+    if (frames[clamped]?.t !== undefined && frames[0]?.t !== undefined) {
+      playheadRef.current = frames[clamped].t! - frames[0].t!;
+    }
+  }, [frames]);
 
-  const downloadCSV = useCallback(() => {
+  const downloadAs = useCallback((codecId: string) => {
     if (frames.length === 0) return;
 
-    // Build CSV header
-    const headers = ['label'];
-    for (let i = 0; i < 21; i++) {
-      headers.push(`L_x${i}`, `L_y${i}`, `L_z${i}`);
-    }
-    for (let i = 0; i < 21; i++) {
-      headers.push(`R_x${i}`, `R_y${i}`, `R_z${i}`);
-    }
-    // Add arm headers
-    headers.push('LA_shoulder_x', 'LA_shoulder_y', 'LA_shoulder_z');
-    headers.push('LA_elbow_x', 'LA_elbow_y', 'LA_elbow_z');
-    headers.push('LA_wrist_x', 'LA_wrist_y', 'LA_wrist_z');
-    headers.push('RA_shoulder_x', 'RA_shoulder_y', 'RA_shoulder_z');
-    headers.push('RA_elbow_x', 'RA_elbow_y', 'RA_elbow_z');
-    headers.push('RA_wrist_x', 'RA_wrist_y', 'RA_wrist_z');
-
-    // Build CSV rows
-    const rows = frames.map(frame => {
-      const row: (string | number)[] = [frame.label];
-      
-      // Left hand landmarks
-      for (let i = 0; i < 21; i++) {
-        if (frame.leftHand && frame.leftHand[i]) {
-          row.push(frame.leftHand[i][0], frame.leftHand[i][1], frame.leftHand[i][2]);
-        } else {
-          row.push(0, 0, 0);
-        }
-      }
-      
-      // Right hand landmarks
-      for (let i = 0; i < 21; i++) {
-        if (frame.rightHand && frame.rightHand[i]) {
-          row.push(frame.rightHand[i][0], frame.rightHand[i][1], frame.rightHand[i][2]);
-        } else {
-          row.push(0, 0, 0);
-        }
-      }
-      
-      // Left arm landmarks
-      if (frame.leftArm) {
-        row.push(frame.leftArm.shoulder[0], frame.leftArm.shoulder[1], frame.leftArm.shoulder[2]);
-        row.push(frame.leftArm.elbow[0], frame.leftArm.elbow[1], frame.leftArm.elbow[2]);
-        row.push(frame.leftArm.wrist[0], frame.leftArm.wrist[1], frame.leftArm.wrist[2]);
-      } else {
-        row.push(0, 0, 0, 0, 0, 0, 0, 0, 0);
-      }
-      
-      // Right arm landmarks
-      if (frame.rightArm) {
-        row.push(frame.rightArm.shoulder[0], frame.rightArm.shoulder[1], frame.rightArm.shoulder[2]);
-        row.push(frame.rightArm.elbow[0], frame.rightArm.elbow[1], frame.rightArm.elbow[2]);
-        row.push(frame.rightArm.wrist[0], frame.rightArm.wrist[1], frame.rightArm.wrist[2]);
-      } else {
-        row.push(0, 0, 0, 0, 0, 0, 0, 0, 0);
-      }
-      
-      return row.join(',');
-    });
+    const codec = getCodec(codecId);
+    const blob = encodeRecording(codecId, { frames, metadata });
+    downloadBlob(blob, exportFileName(`${fileName ? stripExtension(fileName) : 'hand_data'}_export`, codec));
+  }, [frames, fileName, metadata]);
+
+  const downloadCSV = useCallback(() => downloadAs('csv'), [downloadAs]);
 
-    const csvContent = [headers.join(','), ...rows].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = fileName?.replace('.csv', '_export.csv') || 'hand_data_export.csv';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  }, [frames, fileName]);
+  const exportAnimation = useCallback(async (exporterId: string, options?: Partial<ExportOptions>) => {
+    if (frames.length === 0) return;
+
+    try {
+      const exporter = getExporter(exporterId);
+      const blob = await exporter.export({ frames, metadata }, { fps, ...options });
+      downloadBlob(blob, `${fileName ? stripExtension(fileName) : 'hand_data'}_export${exporter.extension}`);
+    } catch (error) {
+      console.error('Failed to export animation:', error);
+      toast.error('Could not export animation', { description: (error as Error).message });
+    }
+  }, [frames, fileName, metadata, fps]);
 
   // Animation loop
   useEffect(() => {
@@ -176,9 +440,22 @@ export const useSignAnimation = (): UseSignAnimationReturn => {
     }
 
     const frameInterval = 1000 / fps;
+    let previous: number | null = null;
 
     const animate = (timestamp: number) => {
-      if (timestamp - lastTimeRef.current >= frameInterval) {
+      if (playbackMode === 'timestamps') {
+        // Advance the playhead by real elapsed time and show the frame captured at that moment
+        const elapsed = previous === null ? 0 : timestamp - previous;
+        previous = timestamp;
+
+        const start = frames[0].t!;
+        const duration = frames[frames.length - 1].t! - start;
+        playheadRef.current += elapsed * playbackSpeed;
+        if (playheadRef.current > duration) {
+          playheadRef.current = 0; // Loop
+        }
+        setCurrentFrame(findFrameAtTime(frames, start + playheadRef.current));
+      } else if (timestamp - lastTimeRef.current >= frameInterval) {
         setCurrentFrame((prev) => {
           const next = prev + 1;
           if (next >= frames.length) {
@@ -198,17 +475,46 @@ export const useSignAnimation = (): UseSignAnimationReturn => {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [isPlaying, frames.length, fps]);
+  }, [isPlaying, frames, fps, playbackMode, playbackSpeed]);
+
+  // Done edits then undone ones, in the order they were made
+  const allEntries = useMemo(() => [...history.undo, ...[...history.redo].reverse()], [history]);
+  const historyBytes = useMemo(() => storedBytes(allEntries), [allEntries]);
 
   return {
     frames,
     currentFrame,
     isPlaying,
     isLoading,
+    loadProgress,
+    cancelLoading,
     fileName,
+    metadata,
+    setMetadata,
     loadFile,
     loadFromUrl,
     loadFrames,
+    editFrames,
+    undo,
+    redo,
+    undoLabel: history.undo[history.undo.length - 1]?.label ?? null,
+    redoLabel: history.redo[history.redo.length - 1]?.label ?? null,
+    history: allEntries,
+    historyPosition: history.undo.length,
+    historyTruncated: history.truncated,
+    historyBytes,
+    goToHistory,
+    selection,
+    setSelection,
+    clipboardSize: clipboard.length,
+    copySelection,
+    cutSelection,
+    pasteFrames,
+    deleteSelection,
+    cropToSelection,
+    duplicateSelection,
+    reverseSelection,
+    stretchSelection,
     play,
     pause,
     togglePlay,
@@ -216,6 +522,13 @@ export const useSignAnimation = (): UseSignAnimationReturn => {
     setFrame,
     fps,
     setFps,
+    playbackMode,
+    canUseTimestamps,
+    setPlaybackMode,
+    playbackSpeed,
+    setPlaybackSpeed,
     downloadCSV,
+    downloadAs,
+    exportAnimation,
   };
 };
@@ -0,0 +1,541 @@
+import * as THREE from 'three';
+import { HandFrame, HandPoints, handPoint, handPointCount, isHandVisible } from '@/types/hand-data';
+import { handView } from '@/lib/codecs';
+import { FaceExpression, solveFaceExpression, solveHeadPose } from '@/lib/face';
+
+// Rigged Mixamo model shown by Avatar3D and baked into glTF exports
+export const AVATAR_MODEL_URL = `${import.meta.env.BASE_URL}models/mixamo-avatar.glb`;
+
+// Landmark-to-rotation math shared by the live avatar and the animation exporters.
+// Everything here is pure: it turns a frame into bone rotation targets but never
+// touches a scene graph.
+
+// Finger landmark indices from MediaPipe
+// Each finger has 4 landmarks: MCP (base), PIP, DIP, TIP
+export const FINGER_LANDMARKS = {
+  thumb: [1, 2, 3, 4],     // CMC, MCP, IP, TIP
+  index: [5, 6, 7, 8],     // MCP, PIP, DIP, TIP
+  middle: [9, 10, 11, 12], // MCP, PIP, DIP, TIP
+  ring: [13, 14, 15, 16],  // MCP, PIP, DIP, TIP
+  pinky: [17, 18, 19, 20], // MCP, PIP, DIP, TIP
+};
+
+
+// Calculate finger curl angle from landmarks
+// Uses the angle between finger segments to determine bend amount
+export const calculateFingerCurl = (
+  landmarks: [number, number, number][],
+  fingerName: keyof typeof FINGER_LANDMARKS,
+  isThumb: boolean = false
+): { proximal: number; intermediate: number; distal: number } => {
+  const indices = FINGER_LANDMARKS[fingerName];
+  
+  // Get the 4 points of the finger
+  const p0 = new THREE.Vector3(...landmarks[indices[0]]); // Base (MCP)
+  const p1 = new THREE.Vector3(...landmarks[indices[1]]); // First joint (PIP)
+  const p2 = new THREE.Vector3(...landmarks[indices[2]]); // Second joint (DIP)
+  const p3 = new THREE.Vector3(...landmarks[indices[3]]); // Tip
+  
+  // Calculate vectors between consecutive joints
+  const v1 = new THREE.Vector3().subVectors(p1, p0).normalize(); // Base to first joint
+  const v2 = new THREE.Vector3().subVectors(p2, p1).normalize(); // First to second joint
+  const v3 = new THREE.Vector3().subVectors(p3, p2).normalize(); // Second to tip
+  
+  // For the proximal bone, we need to compare against a "straight" reference
+  // Use the direction from wrist to finger base as reference for "straight"
+  const wrist = new THREE.Vector3(...landmarks[0]);
+  const middleMCP = new THREE.Vector3(...landmarks[9]); // Middle finger base as palm reference
+  const palmDirection = new THREE.Vector3().subVectors(middleMCP, wrist).normalize();
+  
+  // Calculate bend angles at each joint
+  // Angle between consecutive segments - smaller angle = more bent
+  const angle1 = Math.acos(THREE.MathUtils.clamp(v1.dot(v2), -1, 1)); // Angle at PIP joint
+  const angle2 = Math.acos(THREE.MathUtils.clamp(v2.dot(v3), -1, 1)); // Angle at DIP joint
+  
+  // For proximal, measure how much the first segment deviates from palm direction
+  const proximalAngle = Math.acos(THREE.MathUtils.clamp(palmDirection.dot(v1), -1, 1));
+  
+  // Convert angles to curl rotations
+  // When finger is straight: angles are ~PI (180°), curl should be ~0
+  // When finger is bent: angles decrease, curl should increase
+  const curlScale = isThumb ? 1.0 : 1.2;
+  
+  return {
+    proximal: proximalAngle * curlScale * 0.6,
+    intermediate: (Math.PI - angle1) * curlScale,
+    distal: (Math.PI - angle2) * curlScale * 0.8,
+  };
+};
+
+// Calculate thumb abduction/adduction (movement away from/toward palm)
+export const calculateThumbAbduction = (
+  landmarks: [number, number, number][],
+  isLeftHand: boolean
+): number => {
+  // Key landmarks for thumb abduction calculation
+  const wrist = new THREE.Vector3(...landmarks[0]);
+  const thumbCMC = new THREE.Vector3(...landmarks[1]);  // Thumb base
+  const thumbMCP = new THREE.Vector3(...landmarks[2]);  // Thumb knuckle
+  const indexMCP = new THREE.Vector3(...landmarks[5]);  // Index base
+  const pinkyMCP = new THREE.Vector3(...landmarks[17]); // Pinky base
+  const middleMCP = new THREE.Vector3(...landmarks[9]); // Middle base
+  
+  // Calculate palm plane normal
+  const palmForward = new THREE.Vector3().subVectors(middleMCP, wrist).normalize();
+  const palmSide = new THREE.Vector3().subVectors(indexMCP, pinkyMCP).normalize();
+  const palmNormal = new THREE.Vector3().crossVectors(palmForward, palmSide).normalize();
+  
+  // Calculate thumb direction from CMC to MCP
+  const thumbDirection = new THREE.Vector3().subVectors(thumbMCP, thumbCMC).normalize();
+  
+  // Calculate the angle between thumb and palm plane
+  // Project thumb direction onto palm plane and measure deviation
+  const thumbOnPalm = thumbDirection.clone().projectOnPlane(palmNormal);
+  
+  // Reference direction: from wrist toward index (along palm)
+  const palmReference = new THREE.Vector3().subVectors(indexMCP, wrist).normalize();
+  
+  // Measure how much thumb deviates from the palm plane (abduction angle)
+  // Dot product with palm normal gives us how much thumb points away from palm
+  const abductionAmount = thumbDirection.dot(palmNormal);
+  
+  // Also measure spread angle (how far thumb is from index finger direction)
+  const spreadAngle = Math.acos(THREE.MathUtils.clamp(thumbOnPalm.dot(palmReference), -1, 1));
+  
+  // Combine abduction (out of plane) and spread (within plane)
+  // Positive = thumb away from palm, negative = thumb toward palm
+  const abduction = abductionAmount * 1.5 + (spreadAngle - Math.PI * 0.3) * 0.5;
+  
+  // Flip for right hand to maintain correct direction
+  return abduction * (isLeftHand ? 1 : -1);
+};
+
+// Calculate finger spread angles (how much each finger deviates from its neighbor)
+export const calculateFingerSpread = (
+  landmarks: [number, number, number][],
+  isLeftHand: boolean
+): { index: number; middle: number; ring: number; pinky: number } => {
+  // MCP (base) landmarks for each finger
+  const indexMCP = new THREE.Vector3(...landmarks[5]);
+  const middleMCP = new THREE.Vector3(...landmarks[9]);
+  const ringMCP = new THREE.Vector3(...landmarks[13]);
+  const pinkyMCP = new THREE.Vector3(...landmarks[17]);
+  
+  // Tip landmarks for direction reference
+  const indexTip = new THREE.Vector3(...landmarks[8]);
+  const middleTip = new THREE.Vector3(...landmarks[12]);
+  const ringTip = new THREE.Vector3(...landmarks[16]);
+  const pinkyTip = new THREE.Vector3(...landmarks[20]);
+  
+  // Wrist for reference
+  const wrist = new THREE.Vector3(...landmarks[0]);
+  
+  // Calculate direction vectors for each finger (from MCP toward tip)
+  const indexDir = new THREE.Vector3().subVectors(indexTip, indexMCP).normalize();
+  const middleDir = new THREE.Vector3().subVectors(middleTip, middleMCP).normalize();
+  const ringDir = new THREE.Vector3().subVectors(ringTip, ringMCP).normalize();
+  const pinkyDir = new THREE.Vector3().subVectors(pinkyTip, pinkyMCP).normalize();
+  
+  // Calculate palm forward direction (reference for neutral spread)
+  const palmForward = new THREE.Vector3().subVectors(middleMCP, wrist).normalize();
+  
+  // Calculate spread as angle deviation from middle finger direction
+  // Positive = spread outward, negative = fingers together
+  const indexSpread = Math.acos(THREE.MathUtils.clamp(indexDir.dot(middleDir), -1, 1));
+  const middleSpread = 0; // Middle finger is the reference
+  const ringSpread = Math.acos(THREE.MathUtils.clamp(ringDir.dot(middleDir), -1, 1));
+  const pinkySpread = Math.acos(THREE.MathUtils.clamp(pinkyDir.dot(ringDir), -1, 1));
+  
+  // Determine spread direction by checking cross product with palm normal
+  const palmSide = new THREE.Vector3().subVectors(indexMCP, pinkyMCP).normalize();
+  const palmNormal = new THREE.Vector3().crossVectors(palmForward, palmSide).normalize();
+  
+  // Check which side of middle each finger is on
+  const indexCross = new THREE.Vector3().crossVectors(middleDir, indexDir);
+  const ringCross = new THREE.Vector3().crossVectors(middleDir, ringDir);
+  const pinkyCross = new THREE.Vector3().crossVectors(ringDir, pinkyDir);
+  
+  const indexSign = indexCross.dot(palmNormal) > 0 ? 1 : -1;
+  const ringSign = ringCross.dot(palmNormal) > 0 ? -1 : 1;
+  const pinkySign = pinkyCross.dot(palmNormal) > 0 ? -1 : 1;
+  
+  // Scale spread values - baseline when fingers together is ~0.1-0.15 rad
+  const baselineSpread = 0.12;
+  const spreadScale = 2.0;
+  
+  // Flip for hand side
+  const sideMultiplier = isLeftHand ? 1 : -1;
+  
+  return {
+    index: (indexSpread - baselineSpread) * spreadScale * indexSign * sideMultiplier,
+    middle: middleSpread,
+    ring: (ringSpread - baselineSpread) * spreadScale * ringSign * sideMultiplier,
+    pinky: (pinkySpread - baselineSpread * 0.8) * spreadScale * pinkySign * sideMultiplier,
+  };
+};
+
+// Normalize landmarks the same way Hand3D does for consistent coordinate system
+export const normalizeLandmarksFor3D = (
+  landmarks: HandPoints,
+  scale: number = 1
+): [number, number, number][] => {
+  if (!landmarks || landmarks.length === 0) return [];
+  return Array.from({ length: handPointCount(landmarks) }, (_, i) => {
+    const point = handPoint(landmarks, i);
+    return [
+      (1 - point[0] - 0.5) * scale, // Mirror X
+      (1 - point[1] - 0.5) * scale, // Flip Y
+      -point[2] * scale,            // Negate Z for depth
+    ];
+  });
+};
+
+
+// Avatar configuration - tuned to match Mixamo rig proportions
+export const AVATAR_CONFIG = {
+  shoulderWidth: 0.18,      // Half distance between shoulders
+  shoulderHeight: 0.35,     // Shoulder Y position from center
+  upperArmLength: 0.28,     // Upper arm bone length
+  forearmLength: 0.25,      // Forearm bone length
+  handReachScale: 1.2,      // Scale factor for hand position mapping
+};
+
+// Convert normalized camera coordinates to avatar world position
+// Maps the 2D camera view + depth to 3D positions relative to avatar
+export const landmarkTo3D = (
+  x: number, 
+  y: number, 
+  z: number, 
+  isLeftHand: boolean
+): THREE.Vector3 => {
+  // Camera coordinates: x (0-1 left to right), y (0-1 top to bottom), z (depth, negative = closer)
+  // Avatar coordinates: x (left/right), y (up/down), z (forward/back - positive = front)
+  // 
+  // The camera feed is already mirrored in CameraCapture (1.0 - x), so:
+  // - x=0 means left side of avatar's body (avatar's left)
+  // - x=1 means right side of avatar's body (avatar's right)
+  
+  const scale = AVATAR_CONFIG.handReachScale;
+  
+  // Map X: x=0 -> avatar's left (negative X), x=1 -> avatar's right (positive X)
+  // Center is at x=0.5 -> avatarX=0
+  const avatarX = (x - 0.5) * scale;
+  
+  // Flip Y - camera Y goes down (0=top, 1=bottom), avatar Y goes up
+  // y=0 (top of frame) -> high arm position
+  // y=1 (bottom of frame) -> low arm position
+  const avatarY = (0.5 - y) * scale * 0.8;
+  
+  // Z: Always keep hands in front. Use camera depth for relative positioning only
+  // MediaPipe z is negative when hand is closer to camera
+  const depthInfluence = Math.max(0, -z) * 0.15;
+  const avatarZ = 0.25 + depthInfluence; // Base forward position + depth variation
+  
+  return new THREE.Vector3(avatarX, avatarY, avatarZ);
+};
+
+// Improved 2-bone IK solver using geometric approach
+export const solveArmIK = (
+  targetPos: THREE.Vector3,
+  isLeftArm: boolean
+): { upperArmRotation: THREE.Euler; forearmRotation: THREE.Euler; handRotation: THREE.Euler } => {
+  
+  // Shoulder position in avatar space
+  const shoulderX = isLeftArm ? -AVATAR_CONFIG.shoulderWidth : AVATAR_CONFIG.shoulderWidth;
+  const shoulderPos = new THREE.Vector3(shoulderX, AVATAR_CONFIG.shoulderHeight, 0);
+  
+  const upperLen = AVATAR_CONFIG.upperArmLength;
+  const lowerLen = AVATAR_CONFIG.forearmLength;
+  const totalLen = upperLen + lowerLen;
+  
+  // Vector from shoulder to target
+  const shoulderToTarget = new THREE.Vector3().subVectors(targetPos, shoulderPos);
+  let distance = shoulderToTarget.length();
+  
+  // Clamp distance to reachable range
+  const minDist = Math.abs(upperLen - lowerLen) * 0.5;
+  const maxDist = totalLen * 0.95; // Leave some slack
+  distance = THREE.MathUtils.clamp(distance, minDist, maxDist);
+  
+  // Normalized direction to target
+  const direction = shoulderToTarget.clone().normalize();
+  
+  // Calculate angles using law of cosines
+  // For elbow angle (angle at elbow joint)
+  const cosElbow = (upperLen * upperLen + lowerLen * lowerLen - distance * distance) / (2 * upperLen * lowerLen);
+  const elbowAngle = Math.acos(THREE.MathUtils.clamp(cosElbow, -1, 1));
+  
+  // For shoulder offset (angle between upper arm and line to target)
+  const cosShoulder = (upperLen * upperLen + distance * distance - lowerLen * lowerLen) / (2 * upperLen * distance);
+  const shoulderAngle = Math.acos(THREE.MathUtils.clamp(cosShoulder, -1, 1));
+  
+  // Convert direction to rotation angles
+  // Pitch (X rotation): arm up/down - based on Y component
+  const pitch = Math.asin(THREE.MathUtils.clamp(-direction.y, -1, 1));
+  
+  // Yaw (Y rotation): arm forward/back - based on Z component  
+  // Ensure arms always rotate forward (positive Z)
+  const horizontalDist = Math.sqrt(direction.x * direction.x + direction.z * direction.z);
+  const yaw = Math.atan2(Math.abs(direction.z), horizontalDist) * 0.6;
+  
+  // Roll (Z rotation): arm spread out from body - based on X component
+  const sideSign = isLeftArm ? -1 : 1;
+  const spread = Math.atan2(sideSign * direction.x, -direction.y);
+  
+  // Apply shoulder angle offset to pitch
+  const adjustedPitch = pitch + shoulderAngle * 0.4;
+  
+  // Upper arm rotation
+  const upperArmRotation = new THREE.Euler(
+    adjustedPitch,
+    yaw * (isLeftArm ? 1 : 1), // Same direction for both arms (forward)
+    spread + (isLeftArm ? 0.1 : -0.1), // Slight natural offset
+    'XYZ'
+  );
+  
+  // Forearm rotation (elbow bend)
+  const elbowBend = Math.PI - elbowAngle;
+  const forearmRotation = new THREE.Euler(
+    -elbowBend * 0.7, // Negative X = bend elbow
+    0,
+    0,
+    'XYZ'
+  );
+  
+  // Hand rotation (neutral for now, could be improved with palm orientation)
+  const handRotation = new THREE.Euler(0, 0, 0, 'XYZ');
+  
+  return { upperArmRotation, forearmRotation, handRotation };
+};
+
+// Calculate wrist rotation from palm orientation
+export const calculateWristRotation = (
+  landmarks: HandPoints,
+  isLeftHand: boolean
+): THREE.Euler => {
+  const wrist = new THREE.Vector3(...handPoint(landmarks, 0));
+  const indexMCP = new THREE.Vector3(...handPoint(landmarks, 5));
+  const pinkyMCP = new THREE.Vector3(...handPoint(landmarks, 17));
+  const middleMCP = new THREE.Vector3(...handPoint(landmarks, 9));
+  
+  // Palm direction vectors
+  const palmForward = new THREE.Vector3().subVectors(middleMCP, wrist).normalize();
+  const palmSide = new THREE.Vector3().subVectors(indexMCP, pinkyMCP).normalize();
+  const palmNormal = new THREE.Vector3().crossVectors(palmForward, palmSide).normalize();
+  
+  // Convert to rotation
+  const pitch = Math.atan2(palmNormal.y, Math.sqrt(palmNormal.x ** 2 + palmNormal.z ** 2)) * 0.5;
+  const roll = Math.atan2(palmNormal.x, palmNormal.z) * 0.4 * (isLeftHand ? 1 : -1);
+  
+  return new THREE.Euler(pitch, 0, roll, 'XYZ');
+};
+
+
+export type FingerName = keyof typeof FINGER_LANDMARKS;
+export const FINGER_NAMES: FingerName[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+// Target Euler angles for one bone; axes left undefined keep the bone's current value
+export type AxisTargets = Partial<Record<'x' | 'y' | 'z', number>>;
+
+export interface FingerPose {
+  proximal: AxisTargets;
+  intermediate: AxisTargets;
+  distal: AxisTargets;
+}
+
+export type HandFingerPose = Record<FingerName, FingerPose>;
+
+// Rotation targets for one arm chain, from the upper arm down to the finger tips
+export interface LimbPose {
+  tracked: boolean; // False when the hand wasn't visible and this is the relaxed pose
+  upperArm: AxisTargets;
+  foreArm: AxisTargets;
+  hand: AxisTargets;
+  fingers: HandFingerPose;
+}
+
+// Slight natural curl when relaxed
+const RELAXED_CURL = 0.15;
+
+const relaxedFingerPose = (): HandFingerPose => {
+  const finger = (): FingerPose => ({
+    proximal: { x: RELAXED_CURL, z: 0 },
+    intermediate: { x: RELAXED_CURL * 0.5 },
+    distal: { x: RELAXED_CURL * 0.3 },
+  });
+  return { thumb: finger(), index: finger(), middle: finger(), ring: finger(), pinky: finger() };
+};
+
+// Finger bone targets from raw hand landmarks
+export const solveFingerPose = (
+  rawLandmarks: HandPoints,
+  isLeftHand: boolean
+): HandFingerPose => {
+  // Use normalized landmarks for consistent calculations with Hand3D
+  const landmarks = normalizeLandmarksFor3D(rawLandmarks, 3);
+
+  // Calculate thumb abduction separately
+  const thumbAbduction = calculateThumbAbduction(landmarks, isLeftHand);
+
+  // Calculate finger spread
+  const fingerSpread = calculateFingerSpread(landmarks, isLeftHand);
+
+  const pose = {} as HandFingerPose;
+  for (const fingerName of FINGER_NAMES) {
+    const isThumb = fingerName === 'thumb';
+    const curl = calculateFingerCurl(landmarks, fingerName, isThumb);
+
+    if (isThumb) {
+      pose.thumb = {
+        // X curls, Z abducts (thumb moving away from palm), Y opposes (thumb rotating to face other fingers)
+        proximal: { x: curl.proximal * 0.4, y: thumbAbduction * 0.3, z: thumbAbduction * 0.6 },
+        // Thumb intermediate also gets some abduction influence
+        intermediate: { x: curl.intermediate * 0.4, z: thumbAbduction * 0.2 },
+        distal: { x: curl.distal * 0.3 },
+      };
+    } else {
+      pose[fingerName] = {
+        // Regular fingers curl primarily on X axis, spread on Z
+        proximal: { x: curl.proximal, z: fingerSpread[fingerName as keyof typeof fingerSpread] || 0 },
+        intermediate: { x: curl.intermediate },
+        distal: { x: curl.distal },
+      };
+    }
+  }
+  return pose;
+};
+
+// Full arm chain targets for one side of a frame; falls back to the relaxed pose
+// (arms straight down at the sides) when that hand isn't visible
+export const solveLimbPose = (frame: HandFrame | null, side: 'left' | 'right'): LimbPose => {
+  const isLeft = side === 'left';
+  // Packed recordings are read from their Float32 rows, without building point tuples
+  const landmarks = frame && (handView(frame, side) ?? (isLeft ? frame.leftHand : frame.rightHand));
+  const confidence = isLeft ? frame?.leftConfidence : frame?.rightConfidence;
+  // The right side mirrors the Z rotations of the left
+  const mirror = isLeft ? 1 : -1;
+
+  if (!landmarks || !isHandVisible(landmarks, confidence)) {
+    return {
+      tracked: false,
+      upperArm: { x: 0, y: 0, z: 0.05 * mirror },
+      foreArm: { x: 0 },
+      hand: { x: 0, z: 0 },
+      fingers: relaxedFingerPose(),
+    };
+  }
+
+  // Convert wrist position to 3D target and solve IK for the arm
+  const wrist = handPoint(landmarks, 0);
+  const ik = solveArmIK(landmarkTo3D(wrist[0], wrist[1], wrist[2], isLeft), isLeft);
+
+  // Calculate wrist rotation from palm
+  const wristRot = calculateWristRotation(landmarks, isLeft);
+
+  return {
+    tracked: true,
+    upperArm: { x: ik.upperArmRotation.x, y: ik.upperArmRotation.y, z: ik.upperArmRotation.z * mirror },
+    foreArm: { x: ik.forearmRotation.x },
+    hand: { x: wristRot.x, z: wristRot.z * mirror },
+    fingers: solveFingerPose(landmarks, isLeft),
+  };
+};
+
+// Share of the head turn carried by the neck; the head bone takes the rest
+const NECK_SHARE = 0.4;
+// Eye bone rotation (radians) at a full sideways / vertical look
+const EYE_YAW = 0.35;
+const EYE_PITCH = 0.25;
+
+// Non-manual markers: head and eye bones plus blend shape weights. Bones get
+// empty targets (rest pose) when the frame has no face or pose track.
+export interface NonManualTargets {
+  neck: AxisTargets;
+  head: AxisTargets;
+  eyes: AxisTargets;
+  morphs: Record<string, number>;
+}
+
+// Blend shape weights under the ARKit names most rigged heads (Ready Player Me,
+// ARKit-ready Mixamo exports) use. "Left" is the character's own left, which is +x.
+export const expressionMorphWeights = (expression: FaceExpression | null): Record<string, number> => {
+  const raise = Math.max(0, expression?.browRaise ?? 0);
+  const furrow = Math.max(0, -(expression?.browRaise ?? 0));
+  const open = expression?.mouthOpen ?? 0;
+  const gaze = expression?.gaze ?? { x: 0, y: 0 };
+  const towardsLeft = Math.max(0, gaze.x);
+  const towardsRight = Math.max(0, -gaze.x);
+  const up = Math.max(0, gaze.y);
+  const down = Math.max(0, -gaze.y);
+  return {
+    jawOpen: open,
+    mouthOpen: open,
+    browInnerUp: raise,
+    browOuterUpLeft: raise,
+    browOuterUpRight: raise,
+    browDownLeft: furrow,
+    browDownRight: furrow,
+    eyeLookOutLeft: towardsLeft,
+    eyeLookInRight: towardsLeft,
+    eyeLookInLeft: towardsRight,
+    eyeLookOutRight: towardsRight,
+    eyeLookUpLeft: up,
+    eyeLookUpRight: up,
+    eyeLookDownLeft: down,
+    eyeLookDownRight: down,
+  };
+};
+
+export const solveNonManualTargets = (frame: HandFrame | null): NonManualTargets => {
+  const pose = solveHeadPose(frame);
+  const expression = solveFaceExpression(frame);
+  const share = (amount: number): AxisTargets =>
+    pose ? { x: pose.pitch * amount, y: pose.yaw * amount, z: pose.roll * amount } : {};
+  const gaze = expression?.gaze;
+
+  return {
+    neck: share(NECK_SHARE),
+    head: share(1 - NECK_SHARE),
+    // Positive x rotation tips the eye down, so looking up is negative
+    eyes: gaze ? { x: -gaze.y * EYE_PITCH, y: gaze.x * EYE_YAW } : {},
+    morphs: expressionMorphWeights(expression),
+  };
+};
+
+// Mixamo bone name for one finger joint, e.g. LeftHandIndex2 (joints count from the knuckle)
+export const fingerBoneName = (side: 'left' | 'right', finger: FingerName, joint: 1 | 2 | 3) =>
+  `${side === 'left' ? 'Left' : 'Right'}Hand${finger.charAt(0).toUpperCase()}${finger.slice(1)}${joint}`;
+
+// Rotation targets for every driven bone in one frame, keyed by Mixamo bone name
+export const solveBoneTargets = (frame: HandFrame | null): Map<string, AxisTargets> => {
+  const targets = new Map<string, AxisTargets>();
+  for (const side of ['left', 'right'] as const) {
+    const prefix = side === 'left' ? 'Left' : 'Right';
+    const pose = solveLimbPose(frame, side);
+    targets.set(`${prefix}Arm`, pose.upperArm);
+    targets.set(`${prefix}ForeArm`, pose.foreArm);
+    targets.set(`${prefix}Hand`, pose.hand);
+    for (const finger of FINGER_NAMES) {
+      targets.set(fingerBoneName(side, finger, 1), pose.fingers[finger].proximal);
+      targets.set(fingerBoneName(side, finger, 2), pose.fingers[finger].intermediate);
+      targets.set(fingerBoneName(side, finger, 3), pose.fingers[finger].distal);
+    }
+  }
+  const nonManuals = solveNonManualTargets(frame);
+  targets.set('Neck', nonManuals.neck);
+  targets.set('Head', nonManuals.head);
+  targets.set('LeftEye', nonManuals.eyes);
+  targets.set('RightEye', nonManuals.eyes);
+  return targets;
+};
+
+// Move a bone's rotation toward the targets; lerp = 1 snaps straight to them
+export const applyAxisTargets = (bone: THREE.Object3D | undefined, targets: AxisTargets, lerp: number) => {
+  if (!bone) return;
+  for (const axis of ['x', 'y', 'z'] as const) {
+    const target = targets[axis];
+    if (target !== undefined) {
+      bone.rotation[axis] = THREE.MathUtils.lerp(bone.rotation[axis], target, lerp);
+    }
+  }
+};
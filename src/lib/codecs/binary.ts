@@ -0,0 +1,413 @@
+import {
+  ArmLandmarks,
+  FACE_KEYPOINTS,
+  FACE_MESH_POINTS,
+  FACE_REFINED_POINTS,
+  HandFrame,
+  POSE_POINTS,
+  faceLandmark,
+} from '@/types/hand-data';
+import { CodecError, LandmarkCodec, RecordingMetadata, SignRecording } from './types';
+
+// Binary container (.signbin), little-endian:
+//
+//   header (32 bytes)  magic "SGNB", u16 version, u16 flags, u32 frameCount, u32 stride,
+//                      u32 labelCount, u32 labelTableBytes, u32 metadataBytes, u32 reserved
+//   landmark block     frameCount × stride float32, one row per frame (see PackedLayout)
+//   label index        frameCount × u32, index into the label table
+//   label table        labelCount × (u32 byteLength + UTF-8 bytes)
+//   metadata           UTF-8 JSON
+//
+// Missing arms, pose, face and confidence values are stored as NaN. Version 2
+// added the optional pose and face blocks, version 3 the interpolation flags;
+// older files read unchanged.
+
+const MAGIC = 0x424e4753; // "SGNB"
+const VERSION = 3;
+const HEADER_BYTES = 32;
+
+const FLAG_TIMESTAMPS = 1 << 0;
+const FLAG_CONFIDENCE = 1 << 1;
+const FLAG_ARMS = 1 << 2;
+const FLAG_POSE = 1 << 3;
+const FLAG_FACE = 1 << 4;
+const FLAG_FACE_KEYPOINTS = 1 << 5; // Face block holds FACE_KEYPOINTS rather than the mesh
+const FLAG_FACE_REFINED = 1 << 6; // Face block includes the iris points
+const FLAG_INTERPOLATED = 1 << 7; // One float per frame: bit 0 left hand, bit 1 right hand filled in
+
+const HAND_FLOATS = 21 * 3;
+const ARM_FLOATS = 3 * 3;
+
+type Point = [number, number, number];
+
+// Float offsets of each channel within a frame row; -1 when the channel is absent
+export interface PackedLayout {
+  stride: number;
+  t: number;
+  leftHand: number;
+  rightHand: number;
+  leftArm: number;
+  rightArm: number;
+  leftConfidence: number;
+  rightConfidence: number;
+  leftArmConfidence: number;
+  rightArmConfidence: number;
+  pose: number;
+  poseConfidence: number;
+  face: number;
+  faceIndices: number[]; // Mesh index of each face point in the block; empty without a face track
+  interpolated: number;
+}
+
+export interface PackedRecording {
+  frameCount: number;
+  layout: PackedLayout;
+  data: Float32Array; // View over the file buffer, no copy
+  labels: string[];
+  labelIndex: Uint32Array;
+  metadata: RecordingMetadata;
+}
+
+const range = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+const faceIndicesFor = (flags: number): number[] => {
+  if ((flags & FLAG_FACE) === 0) return [];
+  if (flags & FLAG_FACE_KEYPOINTS) return FACE_KEYPOINTS;
+  return range(flags & FLAG_FACE_REFINED ? FACE_REFINED_POINTS : FACE_MESH_POINTS);
+};
+
+const layoutFor = (flags: number): PackedLayout => {
+  let offset = 0;
+  const take = (enabled: boolean, size: number) => {
+    if (!enabled) return -1;
+    const start = offset;
+    offset += size;
+    return start;
+  };
+  const arms = (flags & FLAG_ARMS) !== 0;
+  const confidence = (flags & FLAG_CONFIDENCE) !== 0;
+  const pose = (flags & FLAG_POSE) !== 0;
+  const faceIndices = faceIndicesFor(flags);
+
+  const layout = {
+    t: take((flags & FLAG_TIMESTAMPS) !== 0, 1),
+    leftHand: take(true, HAND_FLOATS),
+    rightHand: take(true, HAND_FLOATS),
+    leftArm: take(arms, ARM_FLOATS),
+    rightArm: take(arms, ARM_FLOATS),
+    leftConfidence: take(confidence, 21),
+    rightConfidence: take(confidence, 21),
+    leftArmConfidence: take(confidence && arms, 3),
+    rightArmConfidence: take(confidence && arms, 3),
+    pose: take(pose, POSE_POINTS * 3),
+    poseConfidence: take(confidence && pose, POSE_POINTS),
+    face: take(faceIndices.length > 0, faceIndices.length * 3),
+    interpolated: take((flags & FLAG_INTERPOLATED) !== 0, 1),
+  };
+  return { ...layout, faceIndices, stride: offset };
+};
+
+// --- Reading ----------------------------------------------------------------
+
+const readPoints = (data: Float32Array, offset: number, count: number): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i < count; i++) {
+    points.push([data[offset + i * 3], data[offset + i * 3 + 1], data[offset + i * 3 + 2]]);
+  }
+  return points;
+};
+
+const readValues = (data: Float32Array, offset: number, count: number): number[] | undefined => {
+  if (offset < 0 || Number.isNaN(data[offset])) return undefined;
+  return Array.from(data.subarray(offset, offset + count));
+};
+
+const readArm = (data: Float32Array, offset: number, confidenceOffset: number): ArmLandmarks | undefined => {
+  if (offset < 0 || Number.isNaN(data[offset])) return undefined;
+  const [shoulder, elbow, wrist] = readPoints(data, offset, 3);
+  return { shoulder, elbow, wrist, confidence: readValues(data, confidenceOffset, 3) as Point | undefined };
+};
+
+const readTrack = (data: Float32Array, offset: number, count: number): Point[] | undefined => {
+  if (offset < 0 || Number.isNaN(data[offset])) return undefined;
+  return readPoints(data, offset, count);
+};
+
+export interface FrameView {
+  packed: PackedRecording;
+  base: number; // Float offset of this frame's row
+  hands?: { left: Float32Array; right: Float32Array }; // Made on first use, so renderers see stable views
+}
+
+const VIEW = Symbol('packedFrame');
+
+// Replace a lazy accessor with the value it produced, so each channel is read at most once
+const cached = <T>(key: keyof HandFrame, read: (view: FrameView) => T): PropertyDescriptor => ({
+  enumerable: true,
+  configurable: true,
+  get(this: HandFrame & { [VIEW]: FrameView }) {
+    const value = read(this[VIEW]);
+    Object.defineProperty(this, key, { value, enumerable: true, writable: true, configurable: true });
+    return value;
+  },
+});
+
+// Shared accessors: frames stay views over the Float32 block until a renderer or
+// exporter actually reads a channel, which then becomes ordinary point tuples
+const FRAME_ACCESSORS: PropertyDescriptorMap = {
+  leftHand: cached('leftHand', ({ packed, base }) => readPoints(packed.data, base + packed.layout.leftHand, 21)),
+  rightHand: cached('rightHand', ({ packed, base }) => readPoints(packed.data, base + packed.layout.rightHand, 21)),
+  leftConfidence: cached('leftConfidence', ({ packed, base }) =>
+    packed.layout.leftConfidence < 0 ? undefined : readValues(packed.data, base + packed.layout.leftConfidence, 21)),
+  rightConfidence: cached('rightConfidence', ({ packed, base }) =>
+    packed.layout.rightConfidence < 0 ? undefined : readValues(packed.data, base + packed.layout.rightConfidence, 21)),
+  leftArm: cached('leftArm', ({ packed, base }) =>
+    packed.layout.leftArm < 0
+      ? undefined
+      : readArm(packed.data, base + packed.layout.leftArm, packed.layout.leftArmConfidence < 0 ? -1 : base + packed.layout.leftArmConfidence)),
+  rightArm: cached('rightArm', ({ packed, base }) =>
+    packed.layout.rightArm < 0
+      ? undefined
+      : readArm(packed.data, base + packed.layout.rightArm, packed.layout.rightArmConfidence < 0 ? -1 : base + packed.layout.rightArmConfidence)),
+  pose: cached('pose', ({ packed, base }) =>
+    packed.layout.pose < 0 ? undefined : readTrack(packed.data, base + packed.layout.pose, POSE_POINTS)),
+  poseConfidence: cached('poseConfidence', ({ packed, base }) =>
+    packed.layout.poseConfidence < 0 ? undefined : readValues(packed.data, base + packed.layout.poseConfidence, POSE_POINTS)),
+  face: cached('face', ({ packed, base }) =>
+    packed.layout.face < 0 ? undefined : readTrack(packed.data, base + packed.layout.face, packed.layout.faceIndices.length)),
+};
+
+// HandFrame objects backed by the packed block. Accessors are own enumerable
+// properties, so spreading or serialising a view behaves like a plain frame.
+// Spreading reads every channel, though; handView reads a hand without that.
+export const packedFrames = (packed: PackedRecording): HandFrame[] => {
+  const frames: HandFrame[] = new Array(packed.frameCount);
+  const { stride, t, interpolated } = packed.layout;
+  for (let i = 0; i < packed.frameCount; i++) {
+    const filled = interpolated < 0 ? 0 : packed.data[i * stride + interpolated];
+    const frame = {
+      label: packed.labels[packed.labelIndex[i]] ?? '',
+      t: t < 0 ? undefined : packed.data[i * stride + t],
+      leftInterpolated: (filled & 1) !== 0 || undefined,
+      rightInterpolated: (filled & 2) !== 0 || undefined,
+    };
+    // Not enumerable, so a spread copy of an edited frame doesn't keep the block alive
+    Object.defineProperty(frame, VIEW, { value: { packed, base: i * stride } });
+    // The accessors added here supply the landmark fields missing from the literal
+    frames[i] = Object.defineProperties(frame, FRAME_ACCESSORS) as unknown as HandFrame;
+  }
+  return frames;
+};
+
+// The packed row behind a frame from packedFrames; undefined for plain frames
+export const frameView = (frame: HandFrame): FrameView | undefined =>
+  (frame as HandFrame & { [VIEW]?: FrameView })[VIEW];
+
+// Typed-array view of one hand's 21 × xyz block in a packed frame, with no copy
+// and no point tuples; null for plain frames
+export const handView = (frame: HandFrame, side: 'left' | 'right'): Float32Array | null => {
+  const view = frameView(frame);
+  if (!view) return null;
+  if (!view.hands) {
+    const { packed, base } = view;
+    const hand = (offset: number) => packed.data.subarray(base + offset, base + offset + HAND_FLOATS);
+    view.hands = { left: hand(packed.layout.leftHand), right: hand(packed.layout.rightHand) };
+  }
+  return view.hands[side];
+};
+
+export const decodePacked = (buffer: ArrayBuffer): PackedRecording => {
+  if (buffer.byteLength < HEADER_BYTES) {
+    throw new CodecError('File is too small to be a binary sign recording');
+  }
+  const header = new DataView(buffer, 0, HEADER_BYTES);
+  if (header.getUint32(0, true) !== MAGIC) {
+    throw new CodecError('Not a binary sign recording (bad magic number)');
+  }
+  const version = header.getUint16(4, true);
+  if (version > VERSION) {
+    throw new CodecError(`Unsupported binary recording version ${version}; this app reads up to ${VERSION}`);
+  }
+  const flags = header.getUint16(6, true);
+  const frameCount = header.getUint32(8, true);
+  const stride = header.getUint32(12, true);
+  const labelCount = header.getUint32(16, true);
+  const labelTableBytes = header.getUint32(20, true);
+  const metadataBytes = header.getUint32(24, true);
+
+  const layout = layoutFor(flags);
+  if (layout.stride !== stride) {
+    throw new CodecError(`Corrupt header: stride ${stride} does not match flags (expected ${layout.stride})`);
+  }
+
+  const dataBytes = frameCount * stride * 4;
+  const indexOffset = HEADER_BYTES + dataBytes;
+  const tableOffset = indexOffset + frameCount * 4;
+  const metadataOffset = tableOffset + labelTableBytes;
+  if (metadataOffset + metadataBytes > buffer.byteLength) {
+    throw new CodecError('Binary recording is truncated');
+  }
+
+  const data = new Float32Array(buffer, HEADER_BYTES, frameCount * stride);
+  const labelIndex = new Uint32Array(buffer, indexOffset, frameCount);
+
+  const decoder = new TextDecoder();
+  const table = new DataView(buffer, tableOffset, labelTableBytes);
+  const labels: string[] = [];
+  let cursor = 0;
+  for (let i = 0; i < labelCount; i++) {
+    const length = table.getUint32(cursor, true);
+    labels.push(decoder.decode(new Uint8Array(buffer, tableOffset + cursor + 4, length)));
+    cursor += 4 + length;
+  }
+
+  const metadata = metadataBytes > 0
+    ? JSON.parse(decoder.decode(new Uint8Array(buffer, metadataOffset, metadataBytes)))
+    : {};
+
+  return { frameCount, layout, data, labels, labelIndex, metadata };
+};
+
+// --- Writing ----------------------------------------------------------------
+
+const writePoints = (data: Float32Array, offset: number, points: Point[] | undefined, count: number) => {
+  for (let i = 0; i < count; i++) {
+    const point = points?.[i];
+    data[offset + i * 3] = point ? point[0] : 0;
+    data[offset + i * 3 + 1] = point ? point[1] : 0;
+    data[offset + i * 3 + 2] = point ? point[2] : 0;
+  }
+};
+
+const writeValues = (data: Float32Array, offset: number, values: number[] | undefined, count: number) => {
+  for (let i = 0; i < count; i++) {
+    data[offset + i] = values ? values[i] ?? 0 : NaN;
+  }
+};
+
+// Frames that lost an optional track are written as NaN, like missing arms
+const writeTrack = (data: Float32Array, offset: number, points: Point[] | undefined, count: number) => {
+  if (points) {
+    writePoints(data, offset, points, count);
+  } else {
+    data.fill(NaN, offset, offset + count * 3);
+  }
+};
+
+const writeArm = (data: Float32Array, layout: PackedLayout, base: number, side: 'left' | 'right', arm?: ArmLandmarks) => {
+  const offset = base + (side === 'left' ? layout.leftArm : layout.rightArm);
+  if (arm) {
+    writePoints(data, offset, [arm.shoulder, arm.elbow, arm.wrist], 3);
+  } else {
+    data.fill(NaN, offset, offset + ARM_FLOATS);
+  }
+  const confidenceOffset = side === 'left' ? layout.leftArmConfidence : layout.rightArmConfidence;
+  if (confidenceOffset >= 0) {
+    writeValues(data, base + confidenceOffset, arm?.confidence, 3);
+  }
+};
+
+export const encodePacked = ({ frames, metadata }: SignRecording): ArrayBuffer => {
+  let flags = 0;
+  if (frames.length > 0 && frames.every((f) => typeof f.t === 'number')) flags |= FLAG_TIMESTAMPS;
+  const hasConfidence = (f: HandFrame) =>
+    f.leftConfidence || f.rightConfidence || f.leftArm?.confidence || f.rightArm?.confidence || f.poseConfidence;
+  if (frames.some(hasConfidence)) {
+    flags |= FLAG_CONFIDENCE;
+  }
+  if (frames.some((f) => f.leftArm || f.rightArm)) flags |= FLAG_ARMS;
+  if (frames.some((f) => f.pose)) flags |= FLAG_POSE;
+  // The face block is sized for the widest face track in the recording
+  const facePoints = frames.reduce((max, f) => Math.max(max, f.face?.length ?? 0), 0);
+  if (facePoints > 0) flags |= FLAG_FACE;
+  if (facePoints === FACE_KEYPOINTS.length) flags |= FLAG_FACE_KEYPOINTS;
+  if (facePoints > FACE_MESH_POINTS) flags |= FLAG_FACE_REFINED;
+  if (frames.some((f) => f.leftInterpolated || f.rightInterpolated)) flags |= FLAG_INTERPOLATED;
+  const layout = layoutFor(flags);
+
+  // Label table: each distinct label once
+  const encoder = new TextEncoder();
+  const labels: string[] = [];
+  const labelLookup = new Map<string, number>();
+  const labelIndex = frames.map((f) => {
+    if (!labelLookup.has(f.label)) {
+      labelLookup.set(f.label, labels.length);
+      labels.push(f.label);
+    }
+    return labelLookup.get(f.label)!;
+  });
+  const encodedLabels = labels.map((l) => encoder.encode(l));
+  const labelTableBytes = encodedLabels.reduce((sum, bytes) => sum + 4 + bytes.length, 0);
+  const metadataJSON = metadata && Object.keys(metadata).length > 0 ? encoder.encode(JSON.stringify(metadata)) : new Uint8Array(0);
+
+  const dataBytes = frames.length * layout.stride * 4;
+  const indexOffset = HEADER_BYTES + dataBytes;
+  const tableOffset = indexOffset + frames.length * 4;
+  const metadataOffset = tableOffset + labelTableBytes;
+  const buffer = new ArrayBuffer(metadataOffset + metadataJSON.length);
+
+  const header = new DataView(buffer, 0, HEADER_BYTES);
+  header.setUint32(0, MAGIC, true);
+  header.setUint16(4, VERSION, true);
+  header.setUint16(6, flags, true);
+  header.setUint32(8, frames.length, true);
+  header.setUint32(12, layout.stride, true);
+  header.setUint32(16, labels.length, true);
+  header.setUint32(20, labelTableBytes, true);
+  header.setUint32(24, metadataJSON.length, true);
+
+  const data = new Float32Array(buffer, HEADER_BYTES, frames.length * layout.stride);
+  frames.forEach((frame, i) => {
+    const base = i * layout.stride;
+    if (layout.t >= 0) data[base + layout.t] = frame.t!;
+    writePoints(data, base + layout.leftHand, frame.leftHand, 21);
+    writePoints(data, base + layout.rightHand, frame.rightHand, 21);
+    if (layout.leftArm >= 0) {
+      writeArm(data, layout, base, 'left', frame.leftArm);
+      writeArm(data, layout, base, 'right', frame.rightArm);
+    }
+    if (layout.leftConfidence >= 0) {
+      writeValues(data, base + layout.leftConfidence, frame.leftConfidence, 21);
+      writeValues(data, base + layout.rightConfidence, frame.rightConfidence, 21);
+    }
+    if (layout.pose >= 0) {
+      writeTrack(data, base + layout.pose, frame.pose, POSE_POINTS);
+      if (layout.poseConfidence >= 0) {
+        writeValues(data, base + layout.poseConfidence, frame.pose ? frame.poseConfidence : undefined, POSE_POINTS);
+      }
+    }
+    if (layout.face >= 0) {
+      const face = frame.face && layout.faceIndices.map((i) => faceLandmark(frame.face, i) ?? [0, 0, 0] as Point);
+      writeTrack(data, base + layout.face, face, layout.faceIndices.length);
+    }
+    if (layout.interpolated >= 0) {
+      data[base + layout.interpolated] = (frame.leftInterpolated ? 1 : 0) | (frame.rightInterpolated ? 2 : 0);
+    }
+  });
+
+  new Uint32Array(buffer, indexOffset, frames.length).set(labelIndex);
+
+  const table = new DataView(buffer, tableOffset, labelTableBytes);
+  let cursor = 0;
+  encodedLabels.forEach((bytes) => {
+    table.setUint32(cursor, bytes.length, true);
+    new Uint8Array(buffer, tableOffset + cursor + 4, bytes.length).set(bytes);
+    cursor += 4 + bytes.length;
+  });
+
+  new Uint8Array(buffer, metadataOffset, metadataJSON.length).set(metadataJSON);
+  return buffer;
+};
+
+export const binaryCodec: LandmarkCodec = {
+  id: 'binary',
+  label: 'Binary (compact)',
+  extensions: ['.signbin'],
+  mimeType: 'application/octet-stream',
+  detect: (_fileName, data) => data.byteLength >= 4 && new DataView(data).getUint32(0, true) === MAGIC,
+  decode: (data) => {
+    const packed = decodePacked(data);
+    return { frames: packedFrames(packed), metadata: packed.metadata };
+  },
+  encode: (recording) => new Blob([encodePacked(recording)], { type: 'application/octet-stream' }),
+};
@@ -0,0 +1,254 @@
+import Papa from 'papaparse';
+import { HandFrame, RawCSVRow, parseCSVRow } from '@/types/hand-data';
+import { buildCSVHeaders, checkCSVFields } from './csv';
+
+// Validation and column mapping for CSV files that don't follow our header
+// layout (other tools' exports, hand-edited files). The mapping renames the
+// file's columns onto the schema before rows become frames.
+
+// Schema column -> column in the source file
+export type ColumnMapping = Record<string, string>;
+
+export interface MappingPreset {
+  name: string;
+  mapping: ColumnMapping;
+}
+
+export interface CellIssue {
+  row: number; // 1-based line number in the file, counting the header
+  column: string;
+  value: string;
+}
+
+export interface IssueList {
+  count: number;
+  examples: CellIssue[]; // First few occurrences only
+}
+
+export interface CSVValidationReport {
+  rowCount: number;
+  missing: string[]; // Schema columns for hand landmarks or the label with nothing mapped
+  extra: string[]; // Source columns the mapping doesn't use
+  nonNumeric: IssueList;
+  outOfRange: IssueList;
+  mismatchedRows: number[]; // Rows with too few or too many cells
+  canImport: boolean;
+}
+
+export interface ParsedCSV {
+  fields: string[];
+  rows: Record<string, string>[];
+  errors: Papa.ParseError[];
+}
+
+const MAX_EXAMPLES = 5;
+
+const SCHEMA_COLUMNS = buildCSVHeaders({ withConfidence: true, withTimestamps: true });
+const HAND_COLUMNS = {
+  L: SCHEMA_COLUMNS.filter((c) => /^L_[xyz]\d+$/.test(c)),
+  R: SCHEMA_COLUMNS.filter((c) => /^R_[xyz]\d+$/.test(c)),
+};
+
+export const schemaColumns = (): string[] => [...SCHEMA_COLUMNS];
+
+// Columns that must be mapped for a complete recording; arms, confidence and timestamps are optional
+export const isRequiredColumn = (column: string) =>
+  column === 'label' || /^[LR]_[xyz]\d+$/.test(column);
+
+// Normalised x/y coordinates and confidences live in 0–1; z is relative depth and unbounded
+const isUnitRangeColumn = (column: string) => /(_[xy]\d+|_[xy]|_c\d+|_c)$/.test(column);
+
+// Parse every cell as a string so validation and mapping can rerun cheaply while the user edits
+export const parseCSVText = (text: string): ParsedCSV => {
+  const result = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true });
+  return { fields: result.meta.fields ?? [], rows: result.data, errors: result.errors };
+};
+
+// Quick check on the first line: does this file load without a mapping?
+export const readCSVHeader = async (file: Blob): Promise<string[]> => {
+  const head = await file.slice(0, 64 * 1024).text();
+  const result = Papa.parse<string[]>(head, { preview: 1 });
+  return (result.data[0] ?? []).map((field) => field.trim());
+};
+
+export const matchesCSVSchema = (fields: string[]): boolean => {
+  try {
+    checkCSVFields(fields);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const parseNumber = (value: string | undefined): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Alternative spellings seen in other tools' exports, compared after
+// lower-casing and dropping everything but letters and digits
+const SIDE_ALIASES = {
+  L: ['l', 'left', 'lh', 'lefthand'],
+  R: ['r', 'right', 'rh', 'righthand'],
+  LA: ['la', 'leftarm'],
+  RA: ['ra', 'rightarm'],
+};
+const CONFIDENCE_ALIASES = ['c', 'conf', 'confidence', 'visibility', 'v'];
+const LABEL_ALIASES = ['label', 'sign', 'gloss', 'class', 'word'];
+const TIMESTAMP_ALIASES = ['timestamp', 'time', 't', 'timems'];
+
+const normalise = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const aliasesFor = (column: string): string[] => {
+  if (column === 'label') return LABEL_ALIASES;
+  if (column === 'timestamp') return TIMESTAMP_ALIASES;
+
+  const hand = column.match(/^([LR])_([xyz])(\d+)$/);
+  if (hand) {
+    const [, side, axis, index] = hand;
+    return SIDE_ALIASES[side as 'L' | 'R'].flatMap((s) => [`${s}${axis}${index}`, `${s}${index}${axis}`]);
+  }
+  const handConfidence = column.match(/^([LR])_c(\d+)$/);
+  if (handConfidence) {
+    const [, side, index] = handConfidence;
+    return SIDE_ALIASES[side as 'L' | 'R'].flatMap((s) => CONFIDENCE_ALIASES.map((c) => `${s}${c}${index}`));
+  }
+  const arm = column.match(/^(LA|RA)_(\w+?)_([xyzc])$/);
+  if (arm) {
+    const [, side, joint, channel] = arm;
+    const channels = channel === 'c' ? CONFIDENCE_ALIASES : [channel];
+    return SIDE_ALIASES[side as 'LA' | 'RA'].flatMap((s) => channels.map((c) => `${s}${joint}${c}`));
+  }
+  return [];
+};
+
+// Best-guess mapping: exact header names first, then known aliases
+export const suggestMapping = (fields: string[]): ColumnMapping => {
+  const byNormalised = new Map(fields.map((field) => [normalise(field), field]));
+  const mapping: ColumnMapping = {};
+  for (const column of SCHEMA_COLUMNS) {
+    if (fields.includes(column)) {
+      mapping[column] = column;
+      continue;
+    }
+    const match = aliasesFor(column).map((alias) => byNormalised.get(alias)).find(Boolean);
+    if (match) mapping[column] = match;
+  }
+  return mapping;
+};
+
+// Keep only the parts of a saved preset that exist in this file
+export const applyPreset = (preset: MappingPreset, fields: string[]): ColumnMapping => {
+  return Object.fromEntries(Object.entries(preset.mapping).filter(([, source]) => fields.includes(source)));
+};
+
+const pushIssue = (list: IssueList, issue: CellIssue) => {
+  list.count++;
+  if (list.examples.length < MAX_EXAMPLES) list.examples.push(issue);
+};
+
+export const validateCSV = (parsed: ParsedCSV, mapping: ColumnMapping): CSVValidationReport => {
+  const mapped = Object.entries(mapping).filter(([, source]) => parsed.fields.includes(source));
+  const used = new Set(mapped.map(([, source]) => source));
+
+  const missing = SCHEMA_COLUMNS.filter((c) => isRequiredColumn(c) && !mapping[c]);
+  const extra = parsed.fields.filter((f) => !used.has(f));
+  const nonNumeric = emptyIssueList();
+  const outOfRange = emptyIssueList();
+  const mismatchedRows = parsed.errors
+    .filter((e) => e.type === 'FieldMismatch')
+    .map((e) => (e.row ?? 0) + 2);
+
+  parsed.rows.forEach((row, i) => {
+    for (const [column, source] of mapped) {
+      if (column === 'label') continue;
+      const value = row[source];
+      const number = parseNumber(value);
+      if (number === undefined) {
+        if (value !== undefined) pushIssue(nonNumeric, { row: i + 2, column: source, value });
+      } else if (number !== null && isUnitRangeColumn(column) && (number < 0 || number > 1)) {
+        pushIssue(outOfRange, { row: i + 2, column: source, value });
+      }
+    }
+  });
+
+  // At least one complete hand is needed; the other can stay unmapped and reads as untracked
+  const hasHand = HAND_COLUMNS.L.every((c) => mapping[c]) || HAND_COLUMNS.R.every((c) => mapping[c]);
+
+  return {
+    rowCount: parsed.rows.length,
+    missing,
+    extra,
+    nonNumeric,
+    outOfRange,
+    mismatchedRows,
+    canImport: Boolean(mapping.label) && hasHand && nonNumeric.count === 0 && mismatchedRows.length === 0,
+  };
+};
+
+export const emptyIssueList = (): IssueList => ({ count: 0, examples: [] });
+
+// Range check for one row of a file already in our layout, run by the parse
+// worker as rows stream in. Text cells and ragged rows fail that parse outright,
+// so ranges are all that's left to report. rowIndex is 0-based over the data rows.
+export const checkRowRanges = (row: RawCSVRow, rowIndex: number, outOfRange: IssueList) => {
+  for (const [column, value] of Object.entries(row)) {
+    if (typeof value === 'number' && isUnitRangeColumn(column) && (value < 0 || value > 1)) {
+      pushIssue(outOfRange, { row: rowIndex + 2, column, value: String(value) });
+    }
+  }
+};
+
+// The report for a file in our layout once every row has passed checkRowRanges
+export const schemaReport = (fields: string[], rowCount: number, outOfRange: IssueList): CSVValidationReport => ({
+  rowCount,
+  missing: SCHEMA_COLUMNS.filter((c) => isRequiredColumn(c) && !fields.includes(c)),
+  extra: fields.filter((f) => !SCHEMA_COLUMNS.includes(f)),
+  nonNumeric: emptyIssueList(),
+  outOfRange,
+  mismatchedRows: [],
+  canImport: true,
+});
+
+// Anything worth showing before a file that already matches the schema loads.
+// Extra columns aren't: pose and face columns load fine without a mapping.
+export const hasValidationFindings = (report: CSVValidationReport): boolean =>
+  !report.canImport || report.outOfRange.count > 0 || report.rowCount === 0;
+
+// Build frames through the mapping. Call only when validateCSV reports canImport.
+export const framesFromMapping = (parsed: ParsedCSV, mapping: ColumnMapping): HandFrame[] => {
+  const mapped = Object.entries(mapping).filter(([, source]) => parsed.fields.includes(source));
+  return parsed.rows.map((row) => {
+    const raw: RawCSVRow = { label: '' };
+    for (const [column, source] of mapped) {
+      raw[column] = column === 'label' ? row[source] ?? '' : parseNumber(row[source]) ?? null;
+    }
+    return parseCSVRow(raw);
+  });
+};
+
+const PRESETS_KEY = 'csv-mapping-presets';
+
+export const loadMappingPresets = (): MappingPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Saving under an existing name replaces that preset
+export const saveMappingPreset = (preset: MappingPreset): MappingPreset[] => {
+  const presets = [...loadMappingPresets().filter((p) => p.name !== preset.name), preset];
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+export const deleteMappingPreset = (name: string): MappingPreset[] => {
+  const presets = loadMappingPresets().filter((p) => p.name !== name);
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+};
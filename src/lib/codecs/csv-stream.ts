@@ -0,0 +1,67 @@
+import { HandFrame } from '@/types/hand-data';
+import { CodecError } from './types';
+import type { CSVValidationReport } from './csv-import';
+
+export interface CSVWorkerRequest {
+  source: File;
+}
+
+export type CSVWorkerResponse =
+  | { type: 'progress'; rows: number }
+  | { type: 'done'; frames: HandFrame[]; report: CSVValidationReport }
+  | { type: 'error'; message: string };
+
+interface StreamOptions {
+  onProgress?: (rows: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface ParsedCSVFile {
+  frames: HandFrame[];
+  report: CSVValidationReport; // Checked while parsing, so it needs no second pass
+}
+
+// Decode a CSV recording in a Web Worker so large files don't block rendering.
+// Aborting the signal terminates the worker and rejects with an AbortError.
+export const parseCSVInWorker = (source: File, { onProgress, signal }: StreamOptions = {}): Promise<ParsedCSVFile> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Loading cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./csv.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new DOMException('Loading cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<CSVWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.rows);
+      } else if (message.type === 'done') {
+        finish();
+        resolve({ frames: message.frames, report: message.report });
+      } else {
+        finish();
+        reject(new CodecError(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new CodecError(event.message || 'CSV parser crashed'));
+    };
+
+    worker.postMessage({ source } satisfies CSVWorkerRequest);
+  });
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
@@ -0,0 +1,213 @@
+import Papa from 'papaparse';
+import {
+  FACE_KEYPOINTS,
+  HandFrame,
+  POSE_POINTS,
+  RawCSVRow,
+  faceLandmark,
+  parseCSVRow,
+  hasTimestamps,
+  isHandVisible,
+} from '@/types/hand-data';
+import { CodecError, LandmarkCodec, SignRecording } from './types';
+
+const HAND_POINTS = 21;
+const ARM_JOINTS = ['shoulder', 'elbow', 'wrist'] as const;
+
+type Point = [number, number, number];
+
+interface CSVLayout {
+  withConfidence: boolean;
+  withTimestamps: boolean;
+  withPose?: boolean;
+  faceIndices?: number[]; // Face mesh indices to write, one F_x/F_y/F_z triple each
+  withInterpolated?: boolean; // L_interp/R_interp: 1 where gap filling synthesised the hand
+}
+
+// Column order: label, left hand, right hand, arms, optional pose and face, then
+// optional confidence, interpolation flags and timestamp
+export const buildCSVHeaders = ({ withConfidence, withTimestamps, withPose, faceIndices, withInterpolated }: CSVLayout): string[] => {
+  const headers = ['label'];
+  for (const side of ['L', 'R']) {
+    for (let i = 0; i < HAND_POINTS; i++) {
+      headers.push(`${side}_x${i}`, `${side}_y${i}`, `${side}_z${i}`);
+    }
+  }
+  for (const side of ['LA', 'RA']) {
+    for (const joint of ARM_JOINTS) {
+      headers.push(`${side}_${joint}_x`, `${side}_${joint}_y`, `${side}_${joint}_z`);
+    }
+  }
+  if (withPose) {
+    for (let i = 0; i < POSE_POINTS; i++) {
+      headers.push(`P_x${i}`, `P_y${i}`, `P_z${i}`);
+    }
+  }
+  for (const i of faceIndices ?? []) {
+    headers.push(`F_x${i}`, `F_y${i}`, `F_z${i}`);
+  }
+  if (withConfidence) {
+    for (const side of ['L', 'R']) {
+      for (let i = 0; i < HAND_POINTS; i++) {
+        headers.push(`${side}_c${i}`);
+      }
+    }
+    for (const side of ['LA', 'RA']) {
+      for (const joint of ARM_JOINTS) {
+        headers.push(`${side}_${joint}_c`);
+      }
+    }
+    if (withPose) {
+      for (let i = 0; i < POSE_POINTS; i++) {
+        headers.push(`P_c${i}`);
+      }
+    }
+  }
+  if (withInterpolated) {
+    headers.push('L_interp', 'R_interp');
+  }
+  if (withTimestamps) {
+    headers.push('timestamp');
+  }
+  return headers;
+};
+
+// Missing hands or points are padded with zeros so every row has the same width
+const pushHand = (row: (string | number)[], hand: Point[] | undefined) => {
+  for (let i = 0; i < HAND_POINTS; i++) {
+    const point = hand?.[i];
+    row.push(point ? point[0] : 0, point ? point[1] : 0, point ? point[2] : 0);
+  }
+};
+
+const pushArm = (row: (string | number)[], arm: HandFrame['leftArm']) => {
+  for (const joint of ARM_JOINTS) {
+    row.push(...(arm ? arm[joint] : [0, 0, 0]));
+  }
+};
+
+const frameToRow = (frame: HandFrame, layout: CSVLayout): (string | number)[] => {
+  const row: (string | number)[] = [frame.label];
+  pushHand(row, frame.leftHand);
+  pushHand(row, frame.rightHand);
+  pushArm(row, frame.leftArm);
+  pushArm(row, frame.rightArm);
+  if (layout.withPose) {
+    for (let i = 0; i < POSE_POINTS; i++) {
+      row.push(...(frame.pose?.[i] ?? [0, 0, 0]));
+    }
+  }
+  for (const i of layout.faceIndices ?? []) {
+    row.push(...(faceLandmark(frame.face, i) ?? [0, 0, 0]));
+  }
+
+  if (layout.withConfidence) {
+    // Frames without a confidence channel fall back to "tracked if non-zero"
+    const leftFallback = isHandVisible(frame.leftHand) ? 1 : 0;
+    const rightFallback = isHandVisible(frame.rightHand) ? 1 : 0;
+    for (let i = 0; i < HAND_POINTS; i++) {
+      row.push(frame.leftConfidence?.[i] ?? leftFallback);
+    }
+    for (let i = 0; i < HAND_POINTS; i++) {
+      row.push(frame.rightConfidence?.[i] ?? rightFallback);
+    }
+    row.push(...(frame.leftArm?.confidence ?? (frame.leftArm ? [1, 1, 1] : [0, 0, 0])));
+    row.push(...(frame.rightArm?.confidence ?? (frame.rightArm ? [1, 1, 1] : [0, 0, 0])));
+    if (layout.withPose) {
+      for (let i = 0; i < POSE_POINTS; i++) {
+        row.push(frame.poseConfidence?.[i] ?? (frame.pose ? 1 : 0));
+      }
+    }
+  }
+
+  if (layout.withInterpolated) {
+    row.push(frame.leftInterpolated ? 1 : 0, frame.rightInterpolated ? 1 : 0);
+  }
+  if (layout.withTimestamps) {
+    row.push(frame.t!);
+  }
+  return row;
+};
+
+// Face columns follow the widest face track in the recording
+const faceIndicesFor = (frames: HandFrame[]): number[] | undefined => {
+  const widest = frames.reduce((max, f) => Math.max(max, f.face?.length ?? 0), 0);
+  if (widest === 0) return undefined;
+  return widest === FACE_KEYPOINTS.length ? FACE_KEYPOINTS : Array.from({ length: widest }, (_, i) => i);
+};
+
+export const encodeCSV = (frames: HandFrame[]): string => {
+  const layout: CSVLayout = {
+    // Arm confidence alone (pose visibility) is enough to need the confidence columns
+    withConfidence: frames.some(
+      (f) => f.leftConfidence || f.rightConfidence || f.leftArm?.confidence || f.rightArm?.confidence || f.poseConfidence
+    ),
+    withTimestamps: hasTimestamps(frames),
+    withPose: frames.some((f) => f.pose),
+    faceIndices: faceIndicesFor(frames),
+    withInterpolated: frames.some((f) => f.leftInterpolated || f.rightInterpolated),
+  };
+  return Papa.unparse({
+    fields: buildCSVHeaders(layout),
+    data: frames.map((frame) => frameToRow(frame, layout)),
+  }, { newline: '\n' });
+};
+
+// Options shared by the one-shot decoder and the streaming worker
+export const CSV_PARSE_CONFIG = {
+  header: true,
+  // Labels stay strings so e.g. "1" or "true" survive a round trip
+  dynamicTyping: (field: string | number) => field !== 'label',
+  skipEmptyLines: true,
+} as const;
+
+export const checkCSVFields = (fields: string[]) => {
+  if (!fields.includes('label')) {
+    throw new CodecError('CSV has no "label" column');
+  }
+  if (!fields.includes('L_x0') && !fields.includes('R_x0')) {
+    throw new CodecError('CSV has no hand landmark columns (expected L_x0… / R_x0…)');
+  }
+};
+
+// firstRow is the index of the first data row in this batch, for chunked parsing
+export const checkCSVErrors = (errors: Papa.ParseError[], firstRow = 0) => {
+  // A row with the wrong number of cells would silently shift every value after it
+  const mismatch = errors.find((e) => e.type === 'FieldMismatch');
+  if (mismatch) {
+    throw new CodecError(`Row ${firstRow + (mismatch.row ?? 0) + 2}: ${mismatch.message}`);
+  }
+};
+
+// Empty cells are read as untracked (0), but text in a numeric column is an
+// error rather than a silent 0. rowIndex is 0-based over the data rows.
+export const csvRowToFrame = (row: RawCSVRow, rowIndex: number): HandFrame => {
+  for (const [field, value] of Object.entries(row)) {
+    if (field === 'label' || value === null || value === undefined || value === '') continue;
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      throw new CodecError(`Row ${rowIndex + 2}: "${field}" is ${JSON.stringify(value)}, expected a number`);
+    }
+  }
+  return parseCSVRow(row);
+};
+
+export const decodeCSV = (text: string): HandFrame[] => {
+  const result = Papa.parse<RawCSVRow>(text, CSV_PARSE_CONFIG);
+  checkCSVFields(result.meta.fields ?? []);
+  checkCSVErrors(result.errors);
+  return result.data.map(csvRowToFrame);
+};
+
+export const isCSVFile = (fileName: string) => fileName.toLowerCase().endsWith('.csv');
+
+export const csvCodec: LandmarkCodec = {
+  id: 'csv',
+  label: 'CSV',
+  extensions: ['.csv'],
+  mimeType: 'text/csv;charset=utf-8;',
+  detect: (fileName) => isCSVFile(fileName),
+  decode: (data): SignRecording => ({
+    frames: decodeCSV(new TextDecoder().decode(data)),
+  }),
+  encode: ({ frames }) => new Blob([encodeCSV(frames)], { type: 'text/csv;charset=utf-8;' }),
+};
@@ -0,0 +1,49 @@
+import Papa from 'papaparse';
+import { HandFrame, RawCSVRow } from '@/types/hand-data';
+import { CSV_PARSE_CONFIG, checkCSVErrors, checkCSVFields, csvRowToFrame } from './csv';
+import { checkRowRanges, emptyIssueList, schemaReport } from './csv-import';
+import type { CSVWorkerRequest, CSVWorkerResponse } from './csv-stream';
+
+// Parses a CSV recording off the main thread, posting progress after every chunk
+// and the validation report with the frames
+
+const CHUNK_SIZE = 512 * 1024;
+
+const post = (message: CSVWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<CSVWorkerRequest>) => {
+  const frames: HandFrame[] = [];
+  const outOfRange = emptyIssueList();
+  let fields: string[] = [];
+  let failed = false;
+
+  Papa.parse<RawCSVRow>(event.data.source, {
+    ...CSV_PARSE_CONFIG,
+    chunkSize: CHUNK_SIZE,
+    chunk: (results, parser) => {
+      try {
+        if (frames.length === 0) {
+          fields = results.meta.fields ?? [];
+          checkCSVFields(fields);
+        }
+        const firstRow = frames.length;
+        checkCSVErrors(results.errors, firstRow);
+        results.data.forEach((row, i) => {
+          frames.push(csvRowToFrame(row, firstRow + i));
+          checkRowRanges(row, firstRow + i, outOfRange);
+        });
+        post({ type: 'progress', rows: frames.length });
+      } catch (error) {
+        failed = true;
+        parser.abort();
+        post({ type: 'error', message: (error as Error).message });
+      }
+    },
+    complete: () => {
+      if (!failed) post({ type: 'done', frames, report: schemaReport(fields, frames.length, outOfRange) });
+    },
+    error: (error) => {
+      post({ type: 'error', message: error.message });
+    },
+  });
+};
@@ -0,0 +1,23 @@
+import { registerCodec } from './registry';
+import { csvCodec } from './csv';
+import { signJSONCodec } from './json';
+import { binaryCodec } from './binary';
+import { mediaPipeCodec } from './mediapipe';
+
+// Built-in formats, in detection order
+registerCodec(csvCodec);
+registerCodec(signJSONCodec);
+registerCodec(binaryCodec);
+// Import-only; registered after sign-json so its .json sniffing wins
+registerCodec(mediaPipeCodec);
+
+export * from './types';
+export * from './registry';
+export { csvCodec, encodeCSV, decodeCSV, buildCSVHeaders, csvRowToFrame, isCSVFile } from './csv';
+export { parseCSVInWorker, isAbortError } from './csv-stream';
+export type { ParsedCSVFile } from './csv-stream';
+export { signJSONCodec, encodeSignJSON, decodeSignJSON } from './json';
+export { binaryCodec, encodePacked, decodePacked, packedFrames, frameView, handView } from './binary';
+export type { PackedRecording, PackedLayout, FrameView } from './binary';
+export { mediaPipeCodec, decodeMediaPipeJSON } from './mediapipe';
+export * from './csv-import';
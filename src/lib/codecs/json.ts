@@ -0,0 +1,131 @@
+import { ArmLandmarks, HandFrame } from '@/types/hand-data';
+import { LabelRun, getLabelRuns } from '@/lib/label-track';
+import { CodecError, LandmarkCodec, RecordingMetadata, SignRecording } from './types';
+
+export const SIGN_JSON_FORMAT = 'sign-recording';
+export const SIGN_JSON_VERSION = 1;
+
+type Point = [number, number, number];
+
+// On-disk layout of a .sign.json file (version 1)
+interface SignJSONFile {
+  format: typeof SIGN_JSON_FORMAT;
+  version: number;
+  metadata: RecordingMetadata;
+  labels: LabelRun[]; // Label track; every frame is covered by exactly one run
+  frames: Omit<HandFrame, 'label'>[];
+}
+
+const isPoint = (value: unknown): value is Point =>
+  Array.isArray(value) && value.length === 3 && value.every((v) => typeof v === 'number');
+
+const readHand = (value: unknown, where: string): Point[] => {
+  if (!Array.isArray(value) || !value.every(isPoint)) {
+    throw new CodecError(`${where}: expected an array of [x, y, z] points`);
+  }
+  return value;
+};
+
+const readTrack = (value: unknown, where: string): Point[] | undefined =>
+  value === undefined ? undefined : readHand(value, where);
+
+const readConfidence = (value: unknown, where: string): number[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((v) => typeof v === 'number')) {
+    throw new CodecError(`${where}: expected an array of numbers`);
+  }
+  return value;
+};
+
+const readArm = (value: unknown, where: string): ArmLandmarks | undefined => {
+  if (value === undefined) return undefined;
+  const arm = value as Partial<ArmLandmarks>;
+  if (!isPoint(arm.shoulder) || !isPoint(arm.elbow) || !isPoint(arm.wrist)) {
+    throw new CodecError(`${where}: expected shoulder, elbow and wrist points`);
+  }
+  if (arm.confidence !== undefined && !isPoint(arm.confidence)) {
+    throw new CodecError(`${where}.confidence: expected three numbers`);
+  }
+  return { shoulder: arm.shoulder, elbow: arm.elbow, wrist: arm.wrist, confidence: arm.confidence };
+};
+
+export const decodeSignJSON = (text: string): SignRecording => {
+  let file: Partial<SignJSONFile>;
+  try {
+    file = JSON.parse(text);
+  } catch (error) {
+    throw new CodecError(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  if (file?.format !== SIGN_JSON_FORMAT) {
+    throw new CodecError('Not a sign recording (missing "format": "sign-recording")');
+  }
+  if (typeof file.version !== 'number' || file.version > SIGN_JSON_VERSION) {
+    throw new CodecError(`Unsupported sign recording version ${file.version}; this app reads up to ${SIGN_JSON_VERSION}`);
+  }
+  if (!Array.isArray(file.frames)) {
+    throw new CodecError('Sign recording has no "frames" array');
+  }
+
+  const labels: string[] = new Array(file.frames.length).fill('');
+  for (const run of file.labels ?? []) {
+    for (let i = Math.max(0, run.start); i < Math.min(labels.length, run.end); i++) {
+      labels[i] = String(run.label);
+    }
+  }
+
+  const frames = file.frames.map((raw, i): HandFrame => {
+    const where = `frames[${i}]`;
+    if (raw.t !== undefined && typeof raw.t !== 'number') {
+      throw new CodecError(`${where}.t: expected a number`);
+    }
+    return {
+      label: labels[i],
+      t: raw.t,
+      leftHand: readHand(raw.leftHand, `${where}.leftHand`),
+      rightHand: readHand(raw.rightHand, `${where}.rightHand`),
+      leftConfidence: readConfidence(raw.leftConfidence, `${where}.leftConfidence`),
+      rightConfidence: readConfidence(raw.rightConfidence, `${where}.rightConfidence`),
+      leftArm: readArm(raw.leftArm, `${where}.leftArm`),
+      rightArm: readArm(raw.rightArm, `${where}.rightArm`),
+      pose: readTrack(raw.pose, `${where}.pose`),
+      poseConfidence: readConfidence(raw.poseConfidence, `${where}.poseConfidence`),
+      face: readTrack(raw.face, `${where}.face`),
+      leftInterpolated: raw.leftInterpolated === true || undefined,
+      rightInterpolated: raw.rightInterpolated === true || undefined,
+    };
+  });
+
+  return { frames, metadata: file.metadata ?? {} };
+};
+
+export const encodeSignJSON = ({ frames, metadata }: SignRecording): string => {
+  const file: SignJSONFile = {
+    format: SIGN_JSON_FORMAT,
+    version: SIGN_JSON_VERSION,
+    metadata: metadata ?? {},
+    labels: getLabelRuns(frames),
+    // Labels live in the track above, so frames only carry landmark data
+    frames: frames.map(({ label, ...rest }) => rest),
+  };
+  return JSON.stringify(file);
+};
+
+// Sniff the start of a .json file for the format marker
+const looksLikeSignJSON = (data: ArrayBuffer): boolean => {
+  const head = new TextDecoder().decode(data.slice(0, 256));
+  return head.includes(`"${SIGN_JSON_FORMAT}"`);
+};
+
+export const signJSONCodec: LandmarkCodec = {
+  id: 'sign-json',
+  label: 'Sign recording (JSON)',
+  extensions: ['.sign.json'],
+  mimeType: 'application/json',
+  detect: (fileName, data) => {
+    const lower = fileName.toLowerCase();
+    return lower.endsWith('.sign.json') || (lower.endsWith('.json') && looksLikeSignJSON(data));
+  },
+  decode: (data) => decodeSignJSON(new TextDecoder().decode(data)),
+  encode: (recording) => new Blob([encodeSignJSON(recording)], { type: 'application/json' }),
+};
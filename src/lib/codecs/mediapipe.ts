@@ -0,0 +1,170 @@
+import { HandFrame } from '@/types/hand-data';
+import {
+  ALL_BODY_TRACKS,
+  MediaPipeHandedness,
+  MediaPipeLandmark,
+  MediaPipeResults,
+  resultsToFrame,
+} from '@/lib/mediapipe-results';
+import { CodecError, LandmarkCodec, RecordingMetadata, SignRecording } from './types';
+import { stripExtension } from './registry';
+
+// Import-only codec for MediaPipe results dumped to JSON by pipeline scripts.
+// Accepted layouts:
+//   [results, results, ...]
+//   { "frames": [results, ...], "fps"?: number, "label"?: string }
+// where each results object uses either the JS names (poseLandmarks,
+// leftHandLandmarks, multiHandLandmarks + multiHandedness) or the Python ones
+// (pose_landmarks, left_hand_landmarks, multi_hand_landmarks + multi_handedness),
+// and landmark lists are plain arrays or protobuf-style { "landmark": [...] }.
+// A per-frame "timestamp" / "t" / "time" in ms is kept as the frame time (frames
+// are put in timestamp order), and Holistic's full pose and face mesh are kept
+// as the optional pose / face tracks.
+
+type RawObject = Record<string, unknown>;
+
+const HOLISTIC_KEYS = [
+  'poseLandmarks', 'leftHandLandmarks', 'rightHandLandmarks', 'faceLandmarks',
+  'pose_landmarks', 'left_hand_landmarks', 'right_hand_landmarks', 'face_landmarks',
+];
+const HANDS_KEYS = ['multiHandLandmarks', 'multi_hand_landmarks'];
+const RESULT_KEYS = [...HOLISTIC_KEYS, ...HANDS_KEYS];
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pick = (raw: RawObject, ...keys: string[]): unknown => {
+  const key = keys.find((k) => k in raw);
+  return key === undefined ? undefined : raw[key];
+};
+
+const readLandmarks = (value: unknown, where: string): MediaPipeLandmark[] | null => {
+  if (value === null || value === undefined) return null;
+  const list = isObject(value) ? value.landmark : value;
+  if (!Array.isArray(list)) {
+    throw new CodecError(`${where}: expected a list of landmarks`);
+  }
+  return list.map((lm, i) => {
+    if (!isObject(lm) || typeof lm.x !== 'number' || typeof lm.y !== 'number') {
+      throw new CodecError(`${where}: landmark ${i} has no x/y coordinates`);
+    }
+    return lm as unknown as MediaPipeLandmark;
+  });
+};
+
+// Python's multi_handedness entries are { classification: [{ label, score }] }
+const readHandedness = (value: unknown): MediaPipeHandedness => {
+  const entry = isObject(value) && Array.isArray(value.classification) ? value.classification[0] : value;
+  if (!isObject(entry) || typeof entry.label !== 'string') {
+    throw new CodecError('multiHandedness entries need a "label" of Left or Right');
+  }
+  return { label: entry.label, score: typeof entry.score === 'number' ? entry.score : undefined };
+};
+
+const readResults = (raw: unknown, index: number, holistic: boolean): MediaPipeResults => {
+  const where = `Frame ${index}`;
+  if (!isObject(raw)) {
+    throw new CodecError(`${where} is not a results object`);
+  }
+
+  const results: MediaPipeResults = {
+    leftHandLandmarks: readLandmarks(pick(raw, 'leftHandLandmarks', 'left_hand_landmarks'), where),
+    rightHandLandmarks: readLandmarks(pick(raw, 'rightHandLandmarks', 'right_hand_landmarks'), where),
+  };
+  // Holistic dumps often omit poseLandmarks on frames without a body; keep them on the
+  // Holistic path (null instead of undefined) so their hands aren't dropped
+  if (holistic) {
+    results.poseLandmarks = readLandmarks(pick(raw, 'poseLandmarks', 'pose_landmarks'), where);
+    results.faceLandmarks = readLandmarks(pick(raw, 'faceLandmarks', 'face_landmarks'), where);
+  }
+
+  const multi = pick(raw, 'multiHandLandmarks', 'multi_hand_landmarks');
+  if (Array.isArray(multi)) {
+    results.multiHandLandmarks = multi.map((hand) => readLandmarks(hand, where) ?? []);
+    const handedness = pick(raw, 'multiHandedness', 'multi_handedness');
+    if (!Array.isArray(handedness) || handedness.length < multi.length) {
+      throw new CodecError(`${where}: multiHandLandmarks needs a matching multiHandedness entry per hand`);
+    }
+    results.multiHandedness = handedness.map(readHandedness);
+  }
+  return results;
+};
+
+const readTime = (raw: unknown): number | undefined => {
+  if (!isObject(raw)) return undefined;
+  const t = pick(raw, 'timestamp', 't', 'time');
+  return typeof t === 'number' && Number.isFinite(t) ? t : undefined;
+};
+
+export const decodeMediaPipeJSON = (text: string, fileName?: string): SignRecording => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new CodecError(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  const container = isObject(parsed) ? parsed : {};
+  const rawFrames = Array.isArray(parsed) ? parsed : container.frames;
+  if (!Array.isArray(rawFrames) || rawFrames.length === 0) {
+    throw new CodecError('Expected a list of MediaPipe results (or an object with a "frames" list)');
+  }
+
+  // A dump is Holistic if any frame carries per-hand or pose fields
+  const holistic = rawFrames.some((raw) => isObject(raw) && HOLISTIC_KEYS.some((k) => k in raw));
+  const fps = typeof container.fps === 'number' && container.fps > 0 ? container.fps : undefined;
+  const label = typeof container.label === 'string' && container.label
+    ? container.label
+    : (fileName ? stripExtension(fileName) : 'Imported');
+
+  const times = rawFrames.map(readTime);
+  const timed = times.every((t) => t !== undefined);
+
+  // Pipelines that process frames in parallel can write them out of order, so
+  // timed dumps are sorted; two frames at the same time can't both be played
+  const order = rawFrames.map((_, i) => i);
+  if (timed) {
+    order.sort((a, b) => times[a]! - times[b]!);
+    order.slice(1).forEach((index, k) => {
+      const previous = order[k];
+      if (times[index] === times[previous]) {
+        throw new CodecError(`Frames ${previous} and ${index} have the same timestamp (${times[index]})`);
+      }
+    });
+  }
+
+  const frames: HandFrame[] = order.map((index, i) => {
+    const results = readResults(rawFrames[index], index, holistic);
+    const frame: HandFrame = { label, ...resultsToFrame(results, ALL_BODY_TRACKS) };
+    if (timed) {
+      // Rebased to the first frame like captures; dumps often stamp epoch ms,
+      // which a Float32 .signbin can't hold to the millisecond
+      frame.t = times[index]! - times[order[0]]!;
+    } else if (fps) {
+      frame.t = (i * 1000) / fps;
+    }
+    return frame;
+  });
+
+  const metadata: RecordingMetadata = {
+    model: { name: holistic ? 'MediaPipe Holistic' : 'MediaPipe Hands' },
+  };
+  if (fps) metadata.sourceFps = fps;
+
+  return { frames, metadata };
+};
+
+// Only claim .json files that look like MediaPipe output, so other JSON isn't misread
+const looksLikeMediaPipe = (data: ArrayBuffer): boolean => {
+  const head = new TextDecoder().decode(data.slice(0, 4096));
+  return RESULT_KEYS.some((key) => head.includes(`"${key}"`));
+};
+
+export const mediaPipeCodec: LandmarkCodec = {
+  id: 'mediapipe-json',
+  label: 'MediaPipe results (JSON)',
+  extensions: ['.json'],
+  mimeType: 'application/json',
+  detect: (fileName, data) => fileName.toLowerCase().endsWith('.json') && looksLikeMediaPipe(data),
+  decode: (data, fileName) => decodeMediaPipeJSON(new TextDecoder().decode(data), fileName),
+};
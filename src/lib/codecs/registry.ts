@@ -0,0 +1,70 @@
+import { CodecError, LandmarkCodec, SignRecording } from './types';
+
+const codecs: LandmarkCodec[] = [];
+
+// Registering a codec with an existing id replaces it
+export const registerCodec = (codec: LandmarkCodec) => {
+  const index = codecs.findIndex((c) => c.id === codec.id);
+  if (index >= 0) {
+    codecs[index] = codec;
+  } else {
+    codecs.push(codec);
+  }
+};
+
+export const listCodecs = (): LandmarkCodec[] => [...codecs];
+
+// Codecs that can write recordings, for export menus
+export const listEncoders = (): LandmarkCodec[] => codecs.filter((c) => c.encode);
+
+export const getCodec = (id: string): LandmarkCodec => {
+  const codec = codecs.find((c) => c.id === id);
+  if (!codec) {
+    throw new CodecError(`Unknown recording format: ${id}`);
+  }
+  return codec;
+};
+
+export const encodeRecording = (codecId: string, recording: SignRecording): Blob => {
+  const codec = getCodec(codecId);
+  if (!codec.encode) {
+    throw new CodecError(`${codec.label} files can only be imported`);
+  }
+  return codec.encode(recording);
+};
+
+export const detectCodec = (fileName: string, data: ArrayBuffer): LandmarkCodec | null => {
+  return codecs.find((c) => c.detect(fileName, data)) ?? null;
+};
+
+// Value for an <input type="file" accept> attribute covering every registered format
+export const acceptedExtensions = (): string => {
+  return codecs.flatMap((c) => c.extensions).join(',');
+};
+
+export const isSupportedFile = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return codecs.some((c) => c.extensions.some((ext) => lower.endsWith(ext)));
+};
+
+export const decodeRecording = (fileName: string, data: ArrayBuffer): SignRecording => {
+  const codec = detectCodec(fileName, data);
+  if (!codec) {
+    throw new CodecError(`Unsupported file: ${fileName}`);
+  }
+  return codec.decode(data, fileName);
+};
+
+// Drop the longest registered extension, so "take.sign.json" becomes "take"
+export const stripExtension = (fileName: string): string => {
+  const lower = fileName.toLowerCase();
+  const known = codecs
+    .flatMap((c) => c.extensions)
+    .sort((a, b) => b.length - a.length)
+    .find((ext) => lower.endsWith(ext));
+  return known ? fileName.slice(0, -known.length) : fileName;
+};
+
+export const exportFileName = (baseName: string, codec: LandmarkCodec): string => {
+  return `${stripExtension(baseName)}${codec.extensions[0]}`;
+};
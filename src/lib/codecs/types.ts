@@ -0,0 +1,40 @@
+import type { HandFrame } from '@/types/hand-data';
+
+// Descriptive information that travels with a recording (formats that can't store it drop it)
+export interface RecordingMetadata {
+  signerId?: string;
+  captureDevice?: string; // e.g. the camera's device label
+  sourceFps?: number; // Average rate MediaPipe delivered frames at during capture
+  model?: { name: string; version?: string }; // Tracking model that produced the landmarks
+  handedness?: 'left' | 'right'; // Signer's dominant hand
+  notes?: string;
+  [key: string]: unknown; // Unknown keys from newer writers are kept as-is
+}
+
+// A decoded recording as it travels between codecs and the app
+export interface SignRecording {
+  frames: HandFrame[];
+  metadata?: RecordingMetadata;
+}
+
+export interface LandmarkCodec {
+  id: string; // Stable identifier used by the registry, e.g. 'csv'
+  label: string; // Human-readable name for menus
+  extensions: string[]; // Lower-case file extensions; the first one is used for exports
+  mimeType: string;
+  // Cheap check whether a file is in this format, from its name and contents
+  detect: (fileName: string, data: ArrayBuffer) => boolean;
+  // Throws CodecError when the data is malformed. fileName lets import-only
+  // formats without a label column name the sign after the file.
+  decode: (data: ArrayBuffer, fileName?: string) => SignRecording;
+  // Omitted by import-only formats, which then don't appear in export menus
+  encode?: (recording: SignRecording) => Blob;
+}
+
+// Raised for unreadable or invalid recordings; the message is shown to the user
+export class CodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodecError';
+  }
+}
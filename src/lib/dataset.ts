@@ -0,0 +1,170 @@
+import { strToU8, zipSync } from 'fflate';
+import { HandFrame, averageFrameInterval } from '@/types/hand-data';
+import { SignRecording, encodeCSV, stripExtension } from '@/lib/codecs';
+import { ExportError } from '@/lib/exporters';
+
+// Dataset bundles: many recordings as CSV (the same encoding as a single CSV
+// download) in one zip, with a manifest.json describing every take and the
+// train/val/test split it belongs to. All takes by one signer land in the same
+// split so models are evaluated on people they haven't seen.
+
+export type DatasetSplit = 'train' | 'val' | 'test';
+
+export const DATASET_SPLITS: DatasetSplit[] = ['train', 'val', 'test'];
+
+export type SplitRatios = Record<DatasetSplit, number>;
+
+export const DEFAULT_SPLIT_RATIOS: SplitRatios = { train: 70, val: 15, test: 15 };
+
+export interface DatasetItem {
+  id: string; // Unique within the bundle, e.g. the source file name
+  recording: SignRecording;
+  label: string;
+  signer: string;
+}
+
+export interface ManifestEntry {
+  file: string; // Path inside the zip
+  source: string;
+  label: string;
+  signer: string;
+  take: number; // 1-based, counted per label and signer folder in the zip
+  frames: number;
+  fps: number | null;
+  split: DatasetSplit;
+}
+
+export interface DatasetManifest {
+  version: 1;
+  created: string;
+  splitRatios: SplitRatios;
+  seed: number;
+  counts: Record<DatasetSplit, number>;
+  recordings: ManifestEntry[];
+}
+
+const UNKNOWN_SIGNER = 'unknown';
+
+// Most common frame label, which is the sign for single-sign takes
+export const dominantLabel = ({ frames }: SignRecording): string => {
+  const counts = new Map<string, number>();
+  for (const frame of frames) {
+    counts.set(frame.label, (counts.get(frame.label) ?? 0) + 1);
+  }
+  let best = '';
+  counts.forEach((count, label) => {
+    if (count > (counts.get(best) ?? 0)) best = label;
+  });
+  return best;
+};
+
+export const createDatasetItem = (id: string, recording: SignRecording): DatasetItem => ({
+  id,
+  recording,
+  label: dominantLabel(recording) || stripExtension(id),
+  signer: recording.metadata?.signerId ?? '',
+});
+
+// Measured rate from timestamps, falling back to the rate recorded at capture
+const recordingFps = ({ frames, metadata }: SignRecording): number | null => {
+  const interval = averageFrameInterval(frames);
+  if (interval) return Math.round((1000 / interval) * 100) / 100;
+  return metadata?.sourceFps ?? null;
+};
+
+// FNV-1a, so the signer order only depends on the ids and the seed
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Give each signer a split. Signers are visited in a seeded order and each one goes
+// to the split furthest below its target share of takes, so the ratios are met as
+// closely as whole signers allow.
+export const assignSignerSplits = (
+  items: DatasetItem[],
+  ratios: SplitRatios,
+  seed = 0
+): Map<string, DatasetSplit> => {
+  const totalRatio = DATASET_SPLITS.reduce((sum, split) => sum + Math.max(0, ratios[split]), 0);
+  if (totalRatio <= 0) {
+    throw new ExportError('At least one split needs a share above 0');
+  }
+
+  const takesPerSigner = new Map<string, number>();
+  for (const item of items) {
+    const signer = item.signer || UNKNOWN_SIGNER;
+    takesPerSigner.set(signer, (takesPerSigner.get(signer) ?? 0) + 1);
+  }
+  const signers = [...takesPerSigner.keys()].sort(
+    (a, b) => hashString(`${seed}:${a}`) - hashString(`${seed}:${b}`)
+  );
+
+  const assigned = { train: 0, val: 0, test: 0 };
+  const splits = new Map<string, DatasetSplit>();
+  for (const signer of signers) {
+    const deficit = (split: DatasetSplit) => (Math.max(0, ratios[split]) / totalRatio) * items.length - assigned[split];
+    const split = DATASET_SPLITS.filter((s) => ratios[s] > 0).reduce((best, s) => (deficit(s) > deficit(best) ? s : best));
+    splits.set(signer, split);
+    assigned[split] += takesPerSigner.get(signer) ?? 0;
+  }
+  return splits;
+};
+
+// Safe for file names on every OS; letters and digits in any script are kept
+const slug = (text: string) => text.trim().replace(/[^\p{L}\p{N}_-]+/gu, '_').replace(/^_+|_+$/g, '') || 'untitled';
+
+export const buildDatasetManifest = (items: DatasetItem[], ratios: SplitRatios, seed = 0): DatasetManifest => {
+  const splits = assignSignerSplits(items, ratios, seed);
+  const takes = new Map<string, number>();
+
+  const recordings = items.map((item): ManifestEntry => {
+    const signer = item.signer || UNKNOWN_SIGNER;
+    const split = splits.get(signer) as DatasetSplit;
+    // Counted per path rather than per raw label and signer, so labels or signers
+    // that slug to the same name get distinct takes instead of overwriting each other
+    const folder = `${split}/${slug(item.label)}/${slug(signer)}`;
+    const take = (takes.get(folder) ?? 0) + 1;
+    takes.set(folder, take);
+    return {
+      file: `${folder}_take${String(take).padStart(2, '0')}.csv`,
+      source: item.id,
+      label: item.label,
+      signer,
+      take,
+      frames: item.recording.frames.length,
+      fps: recordingFps(item.recording),
+      split,
+    };
+  });
+
+  const counts = { train: 0, val: 0, test: 0 };
+  recordings.forEach((entry) => counts[entry.split]++);
+
+  return { version: 1, created: new Date().toISOString(), splitRatios: ratios, seed, counts, recordings };
+};
+
+// Frames with the item's label written over the sign it was guessed from, so an
+// edited label ends up in the CSV as well as the manifest
+const labelledFrames = ({ recording, label }: DatasetItem): HandFrame[] => {
+  const original = dominantLabel(recording);
+  if (label === original) return recording.frames;
+  return recording.frames.map((frame) => (frame.label === original ? { ...frame, label } : frame));
+};
+
+export const encodeDatasetBundle = (items: DatasetItem[], manifest: DatasetManifest): Uint8Array => {
+  if (items.length === 0) {
+    throw new ExportError('Add at least one recording to the dataset');
+  }
+  const files: Record<string, Uint8Array> = {
+    'manifest.json': strToU8(JSON.stringify(manifest, null, 2)),
+  };
+  manifest.recordings.forEach((entry, i) => {
+    files[entry.file] = strToU8(encodeCSV(labelledFrames(items[i])));
+  });
+  return zipSync(files);
+};
@@ -0,0 +1,31 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { AVATAR_MODEL_URL } from '@/lib/avatar-rig';
+import { ExportError } from './types';
+
+// Same decoder drei's useGLTF uses, in case the avatar model is Draco-compressed
+const DRACO_DECODER_PATH = 'https://www.gstatic.com/draco/versioned/decoders/1.5.5/';
+
+// A fresh copy of the avatar in its bind pose, for exporters that bake onto its skeleton
+export const loadAvatar = async (): Promise<THREE.Object3D> => {
+  const dracoLoader = new DRACOLoader().setDecoderPath(DRACO_DECODER_PATH);
+  const loader = new GLTFLoader().setDRACOLoader(dracoLoader);
+  try {
+    const gltf = await loader.loadAsync(AVATAR_MODEL_URL);
+    return gltf.scene;
+  } catch (error) {
+    throw new ExportError(`Could not load the avatar model (${(error as Error).message})`);
+  } finally {
+    dracoLoader.dispose();
+  }
+};
+
+// The avatar's bones by name
+export const avatarBones = (avatar: THREE.Object3D): Map<string, THREE.Bone> => {
+  const bones = new Map<string, THREE.Bone>();
+  avatar.traverse((child) => {
+    if ((child as THREE.Bone).isBone) bones.set(child.name, child as THREE.Bone);
+  });
+  return bones;
+};
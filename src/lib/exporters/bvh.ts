@@ -0,0 +1,173 @@
+import * as THREE from 'three';
+import { HandFrame, averageFrameInterval } from '@/types/hand-data';
+import { solveBoneTargets } from '@/lib/avatar-rig';
+import { AnimationExporter, ExportError, ExportOptions } from './types';
+import { avatarBones, loadAvatar } from './avatar';
+
+// BVH uses centimetres by convention; the avatar is modelled in metres
+const CM = 100;
+
+type Vec3 = [number, number, number];
+
+interface BVHJoint {
+  bone: THREE.Bone;
+  offset: Vec3;
+  children: BVHJoint[];
+  endSite?: Vec3; // Tip offset for leaf joints
+}
+
+const toVec3 = (v: THREE.Vector3): Vec3 => [v.x * CM, v.y * CM, v.z * CM];
+
+// A bone's offset from its parent in world units, along the parent's world axes.
+// Scales on the armature are folded in, so the BVH needs none.
+const worldOffset = (bone: THREE.Object3D, parent: THREE.Object3D): Vec3 => {
+  const offset = bone.getWorldPosition(new THREE.Vector3()).sub(parent.getWorldPosition(new THREE.Vector3()));
+  return toVec3(offset.applyQuaternion(parent.getWorldQuaternion(new THREE.Quaternion()).invert()));
+};
+
+// The avatar's skeleton in its bind pose. Offsets are measured in the parent's
+// rest frame, and each frame writes bone orientations relative to the parent
+// (see localRotation), so the BVH rebuilds the avatar's pose exactly.
+const buildSkeleton = (bone: THREE.Bone, driven: Set<string>): BVHJoint => {
+  const childBones = bone.children.filter((child): child is THREE.Bone => (child as THREE.Bone).isBone);
+  // A lone leaf bone nothing drives, like Mixamo's *_End and finger tip bones, becomes an end site
+  const [only] = childBones;
+  const tip = childBones.length === 1 && only.children.length === 0 && !driven.has(only.name) ? only : undefined;
+  const offset = bone.parent ? worldOffset(bone, bone.parent) : toVec3(bone.position);
+  const children = tip ? [] : childBones.map((child) => buildSkeleton(child, driven));
+  return {
+    bone,
+    offset,
+    children,
+    // Without a tip bone, the end site carries the bone on for its own length
+    endSite: children.length > 0 ? undefined : tip ? worldOffset(tip, bone) : offset,
+  };
+};
+
+const flattenJoints = (joint: BVHJoint, list: BVHJoint[] = []): BVHJoint[] => {
+  list.push(joint);
+  joint.children.forEach((child) => flattenJoints(child, list));
+  return list;
+};
+
+// The first bone from the top of the scene: Hips on a Mixamo rig
+const findRootBone = (avatar: THREE.Object3D): THREE.Bone | undefined => {
+  let root: THREE.Bone | undefined;
+  avatar.traverse((child) => {
+    if (!root && (child as THREE.Bone).isBone) root = child as THREE.Bone;
+  });
+  return root;
+};
+
+const formatNumber = (value: number): string => {
+  const rounded = Math.round(value * 10000) / 10000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const writeHierarchy = (joint: BVHJoint, depth: number, lines: string[]) => {
+  const indent = '\t'.repeat(depth);
+  const isRoot = depth === 0;
+  lines.push(`${indent}${isRoot ? 'ROOT' : 'JOINT'} ${joint.bone.name}`);
+  lines.push(`${indent}{`);
+  // The root is placed by its position channels instead
+  lines.push(`${indent}\tOFFSET ${(isRoot ? [0, 0, 0] : joint.offset).map(formatNumber).join(' ')}`);
+  // X, Y, Z channel order composes like three.js' 'XYZ' Euler order, which localRotation writes
+  lines.push(isRoot
+    ? `${indent}\tCHANNELS 6 Xposition Yposition Zposition Xrotation Yrotation Zrotation`
+    : `${indent}\tCHANNELS 3 Xrotation Yrotation Zrotation`);
+
+  for (const child of joint.children) {
+    writeHierarchy(child, depth + 1, lines);
+  }
+  if (joint.endSite) {
+    lines.push(`${indent}\tEnd Site`);
+    lines.push(`${indent}\t{`);
+    lines.push(`${indent}\t\tOFFSET ${joint.endSite.map(formatNumber).join(' ')}`);
+    lines.push(`${indent}\t}`);
+  }
+  lines.push(`${indent}}`);
+};
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// A bone's world orientation relative to its parent's (or the world, for the
+// root), as XYZ Euler degrees. Going through world orientations takes in the
+// bone's rest orientation and any rotation on the armature above the root.
+const localRotation = (bone: THREE.Object3D, parent: THREE.Object3D | null, euler: THREE.Euler): number[] => {
+  const rotation = bone.getWorldQuaternion(new THREE.Quaternion());
+  if (parent) rotation.premultiply(parent.getWorldQuaternion(new THREE.Quaternion()).invert());
+  euler.setFromQuaternion(rotation, 'XYZ');
+  return [toDegrees(euler.x), toDegrees(euler.y), toDegrees(euler.z)];
+};
+
+// Convert frames into BVH text on the avatar's own skeleton. Each frame poses
+// the avatar with the same targets the live view uses (solveBoneTargets,
+// without smoothing); axes the solver leaves untouched keep the bind pose.
+export const encodeBVH = (frames: HandFrame[], avatar: THREE.Object3D, options: ExportOptions): string => {
+  if (frames.length === 0) {
+    throw new ExportError('Recording has no frames to export');
+  }
+  const rootBone = findRootBone(avatar);
+  if (!rootBone) {
+    throw new ExportError('The avatar model has no skeleton');
+  }
+
+  avatar.updateMatrixWorld(true);
+  const bones = avatarBones(avatar);
+  const rest = new Map([...bones].map(([name, bone]) => [name, bone.rotation.clone()]));
+  const skeleton = buildSkeleton(rootBone, new Set(solveBoneTargets(null).keys()));
+  const joints = flattenJoints(skeleton);
+
+  const lines: string[] = ['HIERARCHY'];
+  writeHierarchy(skeleton, 0, lines);
+
+  // BVH only supports a fixed frame time, so timestamped captures use their average rate
+  const intervalMs = averageFrameInterval(frames) ?? 1000 / options.fps;
+
+  lines.push('MOTION');
+  lines.push(`Frames: ${frames.length}`);
+  lines.push(`Frame Time: ${(intervalMs / 1000).toFixed(6)}`);
+
+  const euler = new THREE.Euler();
+  const rootPosition = toVec3(rootBone.getWorldPosition(new THREE.Vector3())); // Root stays put
+  try {
+    for (const frame of frames) {
+      for (const [name, targets] of solveBoneTargets(frame)) {
+        const bone = bones.get(name);
+        const restRotation = rest.get(name);
+        if (!bone || !restRotation) continue;
+        bone.rotation.set(
+          targets.x ?? restRotation.x,
+          targets.y ?? restRotation.y,
+          targets.z ?? restRotation.z,
+          restRotation.order
+        );
+      }
+      rootBone.updateMatrixWorld(true);
+
+      const values: number[] = [...rootPosition];
+      for (const joint of joints) {
+        values.push(...localRotation(joint.bone, joint === skeleton ? null : joint.bone.parent, euler));
+      }
+      lines.push(values.map(formatNumber).join(' '));
+    }
+  } finally {
+    // Leave the avatar in its bind pose
+    rest.forEach((rotation, name) => bones.get(name)!.rotation.copy(rotation));
+    rootBone.updateMatrixWorld(true);
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+export const bvhExporter: AnimationExporter = {
+  id: 'bvh',
+  label: 'BVH motion',
+  section: 'Animation',
+  extension: '.bvh',
+  mimeType: 'application/octet-stream',
+  export: async ({ frames }, options) => {
+    const avatar = await loadAvatar();
+    return new Blob([encodeBVH(frames, avatar, options)], { type: bvhExporter.mimeType });
+  },
+};
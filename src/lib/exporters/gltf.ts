@@ -0,0 +1,78 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { HandFrame, hasTimestamps } from '@/types/hand-data';
+import { solveBoneTargets } from '@/lib/avatar-rig';
+import { AnimationExporter, ExportError, ExportOptions } from './types';
+import { avatarBones, loadAvatar } from './avatar';
+
+// Key times in seconds: captured timestamps when present, otherwise a fixed rate
+const keyTimes = (frames: HandFrame[], fps: number): Float32Array => {
+  const times = new Float32Array(frames.length);
+  const useTimestamps = hasTimestamps(frames);
+  const start = frames[0].t ?? 0;
+  frames.forEach((frame, i) => {
+    times[i] = useTimestamps ? ((frame.t as number) - start) / 1000 : i / fps;
+  });
+  return times;
+};
+
+// Bake the rotations Avatar3D would apply on every frame into one quaternion
+// track per bone. Axes the solver leaves untouched keep the bone's rest value,
+// just as they do in the live avatar. Unlike the live view there's no lerp, so
+// the clip follows the recording exactly.
+export const bakeAvatarClip = (
+  frames: HandFrame[],
+  avatar: THREE.Object3D,
+  options: ExportOptions,
+  name: string
+): THREE.AnimationClip => {
+  if (frames.length === 0) {
+    throw new ExportError('Recording has no frames to export');
+  }
+
+  const bones = avatarBones(avatar);
+
+  const targetsPerFrame = frames.map((frame) => solveBoneTargets(frame));
+  const times = keyTimes(frames, options.fps);
+  const euler = new THREE.Euler();
+  const quaternion = new THREE.Quaternion();
+  const tracks: THREE.KeyframeTrack[] = [];
+
+  for (const boneName of targetsPerFrame[0].keys()) {
+    const bone = bones.get(boneName);
+    if (!bone) continue;
+
+    const values = new Float32Array(frames.length * 4);
+    targetsPerFrame.forEach((targets, i) => {
+      const target = targets.get(boneName) ?? {};
+      euler.set(
+        target.x ?? bone.rotation.x,
+        target.y ?? bone.rotation.y,
+        target.z ?? bone.rotation.z,
+        bone.rotation.order
+      );
+      quaternion.setFromEuler(euler).toArray(values, i * 4);
+    });
+    tracks.push(new THREE.QuaternionKeyframeTrack(`${boneName}.quaternion`, times, values));
+  }
+
+  if (tracks.length === 0) {
+    throw new ExportError('The avatar model has no bones matching the rig');
+  }
+
+  return new THREE.AnimationClip(name, -1, tracks);
+};
+
+export const gltfExporter: AnimationExporter = {
+  id: 'glb',
+  label: 'Avatar animation (glTF)',
+  section: 'Animation',
+  extension: '.glb',
+  mimeType: 'model/gltf-binary',
+  export: async ({ frames }, options) => {
+    const avatar = await loadAvatar();
+    const clip = bakeAvatarClip(frames, avatar, options, frames[0]?.label || 'sign');
+    const glb = await new GLTFExporter().parseAsync(avatar, { binary: true, animations: [clip] });
+    return new Blob([glb as ArrayBuffer], { type: gltfExporter.mimeType });
+  },
+};
@@ -0,0 +1,22 @@
+import { AnimationExporter, ExportError } from './types';
+import { bvhExporter } from './bvh';
+import { gltfExporter } from './gltf';
+import { npyExporter, npzExporter } from './numpy';
+
+// Built-in export-only formats, in menu order (grouped by section)
+const exporters: AnimationExporter[] = [bvhExporter, gltfExporter, npyExporter, npzExporter];
+
+export const listExporters = (): AnimationExporter[] => [...exporters];
+
+export const getExporter = (id: string): AnimationExporter => {
+  const exporter = exporters.find((e) => e.id === id);
+  if (!exporter) {
+    throw new ExportError(`Unknown export format: ${id}`);
+  }
+  return exporter;
+};
+
+export * from './types';
+export { bvhExporter, encodeBVH } from './bvh';
+export { gltfExporter, bakeAvatarClip } from './gltf';
+export { npyExporter, npzExporter, encodeNpy, encodeNpz, JOINT_NAMES } from './numpy';
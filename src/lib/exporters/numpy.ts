@@ -0,0 +1,210 @@
+import { zipSync } from 'fflate';
+import { HandFrame, hasTimestamps, isHandVisible } from '@/types/hand-data';
+import { SignRecording } from '@/lib/codecs';
+import { FrameTransforms, NormalizationMode, hasShoulders, normalizeFrames } from '@/lib/normalize';
+import { AnimationExporter, ExportError } from './types';
+
+// NumPy exports for training pipelines. Both formats use the same joint axis:
+//   0–20   left hand (MediaPipe hand landmark order)
+//   21–41  right hand
+//   42–44  left arm: shoulder, elbow, wrist
+//   45–47  right arm: shoulder, elbow, wrist
+// Coordinates are the recording's mirrored 0–1 image space unless a normalisation
+// mode is chosen (see lib/normalize); untracked joints are zeros with confidence 0.
+//
+// .npy holds only the (T, 48, 3) float32 landmark tensor, since NumPy rejects
+// headers with extra keys. .npz adds confidence, labels, timestamps, which hands
+// were gap-filled, the joint names and a JSON metadata string that documents all
+// of the above.
+
+const HAND_POINTS = 21;
+const ARM_JOINTS = ['shoulder', 'elbow', 'wrist'] as const;
+export const JOINT_COUNT = HAND_POINTS * 2 + ARM_JOINTS.length * 2;
+
+export const JOINT_NAMES: string[] = [
+  ...Array.from({ length: HAND_POINTS }, (_, i) => `left_hand_${i}`),
+  ...Array.from({ length: HAND_POINTS }, (_, i) => `right_hand_${i}`),
+  ...ARM_JOINTS.map((joint) => `left_${joint}`),
+  ...ARM_JOINTS.map((joint) => `right_${joint}`),
+];
+
+type NpyDescr = '<f4' | '<f8' | '|u1' | `<U${number}`;
+
+// Build a version 1.0 .npy file: magic, header dict padded to a 64-byte boundary, raw data
+const npyFile = (descr: NpyDescr, shape: number[], body: Uint8Array): Uint8Array => {
+  const shapeText = shape.length === 1 ? `(${shape[0]},)` : `(${shape.join(', ')})`;
+  let header = `{'descr': '${descr}', 'fortran_order': False, 'shape': ${shapeText}, }`;
+  const unpadded = 10 + header.length + 1;
+  header += ' '.repeat((64 - (unpadded % 64)) % 64) + '\n';
+
+  const file = new Uint8Array(10 + header.length + body.length);
+  file.set([0x93, ...Array.from('NUMPY', (c) => c.charCodeAt(0)), 1, 0]);
+  new DataView(file.buffer).setUint16(8, header.length, true);
+  file.set(Array.from(header, (c) => c.charCodeAt(0)), 10);
+  file.set(body, 10 + header.length);
+  return file;
+};
+
+const floatBytes = (values: Float32Array | Float64Array) =>
+  new Uint8Array(values.buffer, values.byteOffset, values.byteLength);
+
+// Fixed-width UTF-32 strings, NumPy's native unicode dtype
+const unicodeArray = (strings: string[], shape: number[]): Uint8Array => {
+  const codePoints = strings.map((s) => Array.from(s, (c) => c.codePointAt(0) ?? 0));
+  const width = Math.max(1, ...codePoints.map((cp) => cp.length));
+  const body = new Uint32Array(strings.length * width);
+  codePoints.forEach((cp, i) => body.set(cp, i * width));
+  return npyFile(`<U${width}`, shape, new Uint8Array(body.buffer));
+};
+
+const writeJoints = (frame: HandFrame, landmarks: Float32Array, confidence: Float32Array, offset: number) => {
+  const put = (joint: number, point: [number, number, number] | undefined, score: number) => {
+    const base = (offset + joint) * 3;
+    landmarks[base] = point?.[0] ?? 0;
+    landmarks[base + 1] = point?.[1] ?? 0;
+    landmarks[base + 2] = point?.[2] ?? 0;
+    confidence[offset + joint] = point ? score : 0;
+  };
+
+  // Frames without a confidence channel fall back to "tracked if non-zero", like the CSV writer
+  const leftFallback = isHandVisible(frame.leftHand) ? 1 : 0;
+  const rightFallback = isHandVisible(frame.rightHand) ? 1 : 0;
+  for (let i = 0; i < HAND_POINTS; i++) {
+    put(i, frame.leftHand?.[i], frame.leftConfidence?.[i] ?? leftFallback);
+    put(HAND_POINTS + i, frame.rightHand?.[i], frame.rightConfidence?.[i] ?? rightFallback);
+  }
+  ARM_JOINTS.forEach((joint, j) => {
+    put(HAND_POINTS * 2 + j, frame.leftArm?.[joint], frame.leftArm?.confidence?.[j] ?? 1);
+    put(HAND_POINTS * 2 + ARM_JOINTS.length + j, frame.rightArm?.[joint], frame.rightArm?.confidence?.[j] ?? 1);
+  });
+};
+
+// Landmarks as (T, 48, 3) and confidence as (T, 48), row-major
+export const framesToTensors = (frames: HandFrame[]) => {
+  const landmarks = new Float32Array(frames.length * JOINT_COUNT * 3);
+  const confidence = new Float32Array(frames.length * JOINT_COUNT);
+  frames.forEach((frame, t) => writeJoints(frame, landmarks, confidence, t * JOINT_COUNT));
+  return { landmarks, confidence };
+};
+
+// Normalised copy of the frames; modes built on the shoulders need them tracked somewhere
+const normalizeForExport = (frames: HandFrame[], mode: NormalizationMode) => {
+  if ((mode === 'shoulder' || mode === 'torso') && !hasShoulders(frames)) {
+    throw new ExportError('Shoulder-based normalisation needs arm or pose tracking; this recording has none');
+  }
+  return normalizeFrames(frames, mode);
+};
+
+// Per-frame transforms as (T, 3, …) arrays, parts in the order body, left hand, right hand
+const transformTensors = (transforms: FrameTransforms[]) => {
+  const T = transforms.length;
+  const origin = new Float32Array(T * 3 * 3);
+  const rotation = new Float32Array(T * 3 * 9);
+  const scale = new Float32Array(T * 3);
+  transforms.forEach(({ body, leftHand, rightHand }, t) => {
+    [body, leftHand, rightHand].forEach((part, p) => {
+      origin.set(part.origin, (t * 3 + p) * 3);
+      rotation.set(part.rotation, (t * 3 + p) * 9);
+      scale[t * 3 + p] = part.scale;
+    });
+  });
+  return { origin, rotation, scale };
+};
+
+export const encodeNpy = (frames: HandFrame[], normalization: NormalizationMode = 'none'): Uint8Array => {
+  if (frames.length === 0) {
+    throw new ExportError('Recording has no frames to export');
+  }
+  // Only the landmarks fit in a .npy, so the transforms are not kept
+  const { landmarks } = framesToTensors(normalizeForExport(frames, normalization).frames);
+  return npyFile('<f4', [frames.length, JOINT_COUNT, 3], floatBytes(landmarks));
+};
+
+export const encodeNpz = ({ frames, metadata }: SignRecording, normalization: NormalizationMode = 'none'): Uint8Array => {
+  if (frames.length === 0) {
+    throw new ExportError('Recording has no frames to export');
+  }
+  const normalized = normalizeForExport(frames, normalization);
+  const { landmarks } = framesToTensors(normalized.frames);
+  // Confidence comes from the raw frames, where "tracked if non-zero" still holds
+  const { confidence } = framesToTensors(frames);
+  const T = frames.length;
+
+  // Timestamps in ms from the first frame; NaN throughout for legacy recordings
+  const timestamps = new Float64Array(T).fill(NaN);
+  if (hasTimestamps(frames)) {
+    frames.forEach((frame, i) => (timestamps[i] = (frame.t as number) - (frames[0].t as number)));
+  }
+
+  // Left/right hand filled in by gap filling rather than tracked
+  const interpolated = new Uint8Array(T * 2);
+  frames.forEach((frame, i) => {
+    interpolated[i * 2] = frame.leftInterpolated ? 1 : 0;
+    interpolated[i * 2 + 1] = frame.rightInterpolated ? 1 : 0;
+  });
+
+  const description = {
+    joint_order: JOINT_NAMES,
+    arrays: {
+      landmarks: normalization === 'none'
+        ? '(T, 48, 3) float32 x, y, z in mirrored 0-1 image space; untracked joints are 0'
+        : `(T, 48, 3) float32 x, y, z normalised with mode "${normalization}"; untracked hands are 0`,
+      confidence: '(T, 48) float32 per-joint confidence, 0 when untracked',
+      labels: '(T,) per-frame sign label',
+      timestamps: '(T,) float64 ms since the first frame, NaN when the recording has no timestamps',
+      interpolated: '(T, 2) uint8 1 where the left / right hand was interpolated over a tracking gap',
+      joint_names: '(48,) name of each joint on axis 1',
+    },
+    normalization: normalization === 'none' ? null : {
+      mode: normalization,
+      parts: ['body', 'left_hand', 'right_hand'], // Hands use the part of their name, arms the body
+      arrays: {
+        normalization_origin: '(T, 3, 3) float32 origin per part',
+        normalization_rotation: '(T, 3, 3, 3) float32 row-major rotation R per part',
+        normalization_scale: '(T, 3) float32 scale per part',
+      },
+      inverse: 'p = R.T @ (p_normalised / scale) + origin',
+    },
+    recording: metadata ?? {},
+  };
+
+  const files: Record<string, Uint8Array> = {
+    'landmarks.npy': npyFile('<f4', [T, JOINT_COUNT, 3], floatBytes(landmarks)),
+    'confidence.npy': npyFile('<f4', [T, JOINT_COUNT], floatBytes(confidence)),
+    'labels.npy': unicodeArray(frames.map((f) => f.label), [T]),
+    'timestamps.npy': npyFile('<f8', [T], floatBytes(timestamps)),
+    'interpolated.npy': npyFile('|u1', [T, 2], interpolated),
+    'joint_names.npy': unicodeArray(JOINT_NAMES, [JOINT_COUNT]),
+    // 0-d string array; read with json.loads(str(npz['metadata']))
+    'metadata.npy': unicodeArray([JSON.stringify(description)], []),
+  };
+  if (normalization !== 'none') {
+    const { origin, rotation, scale } = transformTensors(normalized.transforms);
+    files['normalization_origin.npy'] = npyFile('<f4', [T, 3, 3], floatBytes(origin));
+    files['normalization_rotation.npy'] = npyFile('<f4', [T, 3, 3, 3], floatBytes(rotation));
+    files['normalization_scale.npy'] = npyFile('<f4', [T, 3], floatBytes(scale));
+  }
+  return zipSync(files);
+};
+
+export const npyExporter: AnimationExporter = {
+  id: 'npy',
+  label: 'NumPy landmarks',
+  section: 'Machine learning',
+  normalizable: true,
+  extension: '.npy',
+  mimeType: 'application/octet-stream',
+  export: async ({ frames }, { normalization }) =>
+    new Blob([encodeNpy(frames, normalization)], { type: npyExporter.mimeType }),
+};
+
+export const npzExporter: AnimationExporter = {
+  id: 'npz',
+  label: 'NumPy archive',
+  section: 'Machine learning',
+  normalizable: true,
+  extension: '.npz',
+  mimeType: 'application/zip',
+  export: async (recording, { normalization }) =>
+    new Blob([encodeNpz(recording, normalization)], { type: npzExporter.mimeType }),
+};
@@ -0,0 +1,27 @@
+import { SignRecording } from '@/lib/codecs';
+import type { NormalizationMode } from '@/lib/normalize';
+
+export interface ExportOptions {
+  fps: number; // Playback rate to assume when frames carry no timestamps
+  normalization?: NormalizationMode; // Coordinate frame, for exporters marked normalizable
+}
+
+// One-way export of a recording into a format other tools consume. Unlike a
+// LandmarkCodec the output can't be loaded back into the app.
+export interface AnimationExporter {
+  id: string;
+  label: string;
+  section: string; // Export menu group, e.g. 'Animation'
+  normalizable?: boolean; // Honours ExportOptions.normalization
+  extension: string;
+  mimeType: string;
+  export: (recording: SignRecording, options: ExportOptions) => Promise<Blob>;
+}
+
+// Raised when a recording can't be exported; the message is shown to the user
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
@@ -0,0 +1,181 @@
+import * as THREE from 'three';
+import { CONFIDENCE_THRESHOLD, HandFrame, faceLandmark } from '@/types/hand-data';
+
+// Head orientation and facial expression from the optional face and pose tracks.
+// Landmarks are in the recording's mirrored image space (x right, y down, z into
+// the screen), so the results describe the reflection the avatars show.
+
+type Point = [number, number, number];
+
+// Radians, as a three.js 'YXZ' Euler in the avatars' space (y up, z towards the
+// viewer); all zero when facing the camera upright
+export interface HeadPose {
+  yaw: number; // Turn about the vertical axis
+  pitch: number; // Nod, positive tipping the face down
+  roll: number; // Tilt towards a shoulder
+}
+
+export interface FaceExpression {
+  mouthOpen: number; // 0 closed … 1 wide open
+  browRaise: number; // -1 furrowed … 0 neutral … 1 raised
+  // Iris offset within the eye, -1 … 1 along the head's x (towards +x) and y (up).
+  // Null unless the face track includes the iris points (refined mesh).
+  gaze: { x: number; y: number } | null;
+}
+
+// Face mesh indices used below (all part of FACE_KEYPOINTS)
+const FACE = {
+  forehead: 10,
+  chin: 152,
+  imageLeftEdge: 234, // Face outline on the left of the camera image
+  imageRightEdge: 454,
+  upperLip: 13, // Inner lip midpoints
+  lowerLip: 14,
+  brows: [105, 334],
+  upperLids: [159, 386],
+  // Per eye: corners, lids and iris centre
+  eyes: [
+    { corners: [33, 133], lids: [159, 145], iris: 468 },
+    { corners: [362, 263], lids: [386, 374], iris: 473 },
+  ],
+};
+
+// BlazePose indices for the pose fallback
+const POSE = { nose: 0, leftEar: 7, rightEar: 8 };
+
+// Image space to a y-up, z-towards-viewer frame
+const toVector = ([x, y, z]: Point) => new THREE.Vector3(x, -y, -z);
+
+const isTracked = (point: Point | undefined): point is Point =>
+  !!point && (point[0] !== 0 || point[1] !== 0);
+
+const basis = new THREE.Matrix4();
+const euler = new THREE.Euler();
+
+interface HeadAxes {
+  right: THREE.Vector3;
+  up: THREE.Vector3;
+  forward: THREE.Vector3;
+}
+
+// Orthonormal head frame from the face outline
+const faceAxes = (face: Point[]): HeadAxes | null => {
+  const forehead = faceLandmark(face, FACE.forehead);
+  const chin = faceLandmark(face, FACE.chin);
+  const leftEdge = faceLandmark(face, FACE.imageLeftEdge);
+  const rightEdge = faceLandmark(face, FACE.imageRightEdge);
+  if (![forehead, chin, leftEdge, rightEdge].every(isTracked)) return null;
+
+  // After mirroring, the mesh's image-left edge is on the right of the frame
+  const right = toVector(leftEdge!).sub(toVector(rightEdge!)).normalize();
+  const up = toVector(forehead!).sub(toVector(chin!));
+  const forward = new THREE.Vector3().crossVectors(right, up).normalize();
+  up.crossVectors(forward, right).normalize();
+  return { right, up, forward };
+};
+
+const headPoseFromFace = (face: Point[]): HeadPose | null => {
+  const axes = faceAxes(face);
+  if (!axes) return null;
+  euler.setFromRotationMatrix(basis.makeBasis(axes.right, axes.up, axes.forward), 'YXZ');
+  return { yaw: euler.y, pitch: euler.x, roll: euler.z };
+};
+
+// Ears and nose from the body pose: coarser than the mesh (pose depth is rough
+// and the nose sits only roughly level with the ears), but better than nothing
+const headPoseFromBody = (pose: Point[], confidence?: number[]): HeadPose | null => {
+  const tracked = [POSE.nose, POSE.leftEar, POSE.rightEar].every(
+    (i) => isTracked(pose[i]) && (confidence?.[i] ?? 1) >= CONFIDENCE_THRESHOLD
+  );
+  if (!tracked) return null;
+
+  const leftEar = toVector(pose[POSE.leftEar]);
+  const rightEar = toVector(pose[POSE.rightEar]);
+  const right = new THREE.Vector3().subVectors(rightEar, leftEar);
+  if (right.lengthSq() < 1e-12) return null;
+  right.normalize();
+
+  const middle = new THREE.Vector3().addVectors(leftEar, rightEar).multiplyScalar(0.5);
+  const forward = toVector(pose[POSE.nose]).sub(middle);
+  forward.addScaledVector(right, -forward.dot(right)).normalize();
+  const up = new THREE.Vector3().crossVectors(forward, right);
+
+  euler.setFromRotationMatrix(basis.makeBasis(right, up, forward), 'YXZ');
+  return { yaw: euler.y, pitch: euler.x, roll: euler.z };
+};
+
+export const solveHeadPose = (frame: HandFrame | null): HeadPose | null => {
+  if (!frame) return null;
+  if (frame.face) {
+    const fromFace = headPoseFromFace(frame.face);
+    if (fromFace) return fromFace;
+  }
+  return frame.pose ? headPoseFromBody(frame.pose, frame.poseConfidence) : null;
+};
+
+// Ratios of face height; rough ranges for a frontal webcam view
+const MOUTH_CLOSED = 0.01;
+const MOUTH_WIDE = 0.15;
+const BROW_NEUTRAL = 0.1;
+const BROW_RANGE = 0.035;
+// Fraction of the half eye width/height the iris travels at a full sideways/up look
+const GAZE_RANGE = 0.5;
+
+// Average iris offset over the eyes with iris points, in head axes
+const solveGaze = (face: Point[], axes: HeadAxes): FaceExpression['gaze'] => {
+  const offsets = FACE.eyes.flatMap(({ corners, lids, iris }) => {
+    const [cornerA, cornerB, upperLid, lowerLid, centre] = [...corners, ...lids, iris].map((i) => faceLandmark(face, i));
+    if (![cornerA, cornerB, upperLid, lowerLid, centre].every(isTracked)) return [];
+
+    const a = toVector(cornerA!);
+    const b = toVector(cornerB!);
+    const top = toVector(upperLid!);
+    const bottom = toVector(lowerLid!);
+    const halfWidth = a.distanceTo(b) / 2;
+    const halfHeight = top.distanceTo(bottom) / 2;
+    if (halfWidth < 1e-6 || halfHeight < 1e-6) return [];
+
+    const fromMiddle = toVector(centre!).sub(a.add(b).multiplyScalar(0.5));
+    const fromLids = toVector(centre!).sub(top.add(bottom).multiplyScalar(0.5));
+    return [{
+      x: fromMiddle.dot(axes.right) / (halfWidth * GAZE_RANGE),
+      y: fromLids.dot(axes.up) / (halfHeight * GAZE_RANGE),
+    }];
+  });
+  if (offsets.length === 0) return null;
+
+  const mean = (key: 'x' | 'y') => offsets.reduce((sum, o) => sum + o[key], 0) / offsets.length;
+  return { x: THREE.MathUtils.clamp(mean('x'), -1, 1), y: THREE.MathUtils.clamp(mean('y'), -1, 1) };
+};
+
+export const solveFaceExpression = (frame: HandFrame | null): FaceExpression | null => {
+  const face = frame?.face;
+  if (!face) return null;
+  const point = (index: number) => faceLandmark(face, index);
+
+  const forehead = point(FACE.forehead);
+  const chin = point(FACE.chin);
+  if (!isTracked(forehead) || !isTracked(chin)) return null;
+  const faceHeight = toVector(forehead).distanceTo(toVector(chin));
+  if (faceHeight < 1e-6) return null;
+
+  const distance = (a: number, b: number) => {
+    const pa = point(a);
+    const pb = point(b);
+    return isTracked(pa) && isTracked(pb) ? toVector(pa).distanceTo(toVector(pb)) / faceHeight : null;
+  };
+
+  const lips = distance(FACE.upperLip, FACE.lowerLip);
+  const brows = FACE.brows
+    .map((brow, i) => distance(brow, FACE.upperLids[i]))
+    .filter((d): d is number => d !== null);
+  const browDistance = brows.length > 0 ? brows.reduce((sum, d) => sum + d, 0) / brows.length : null;
+
+  const axes = faceAxes(face);
+
+  return {
+    mouthOpen: lips === null ? 0 : THREE.MathUtils.clamp((lips - MOUTH_CLOSED) / (MOUTH_WIDE - MOUTH_CLOSED), 0, 1),
+    browRaise: browDistance === null ? 0 : THREE.MathUtils.clamp((browDistance - BROW_NEUTRAL) / BROW_RANGE, -1, 1),
+    gaze: axes ? solveGaze(face, axes) : null,
+  };
+};
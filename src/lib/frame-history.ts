@@ -0,0 +1,187 @@
+import { HandFrame } from '@/types/hand-data';
+import { decodePacked, encodePacked, frameView, packedFrames } from '@/lib/codecs';
+import type { FrameView, RecordingMetadata } from '@/lib/codecs';
+
+// Undo history for edits to a loaded recording. Edits copy the frames they
+// change and share the rest, so the difference between two versions is found
+// by identity and stored as a single splice: a one-frame fix costs one frame,
+// not a copy of the whole recording. Frames that only got a new timestamp or
+// label still share their landmark arrays, so the history is capped by the
+// landmark data it holds rather than by frames or steps. Edits that rebuild
+// every point, like smoothing, keep the side that is off screen packed in the
+// Float32 layout of .signbin files.
+
+// Frames packed into a Float32 block, with timestamps kept beside it at full precision
+interface PackedFrames {
+  buffer: ArrayBuffer;
+  times: Float64Array; // NaN where a frame had none
+  length: number;
+}
+
+export type StoredFrames = HandFrame[] | PackedFrames;
+
+export interface FramePatch {
+  start: number;
+  removed: StoredFrames; // Frames from `start` in the old version
+  inserted: StoredFrames; // ...and what replaced them
+}
+
+// Recording state an edit changes besides its frames
+export interface EditSideEffects {
+  metadata?: RecordingMetadata;
+  fps?: number; // Playback rate
+}
+
+export interface HistoryEntry {
+  label: string;
+  patch: FramePatch;
+  frame: number; // Playhead when the edit was made, restored on undo/redo
+  metadata?: { before: RecordingMetadata; after: RecordingMetadata }; // For edits that also change the header
+  fps?: { before: number; after: number }; // Playback rate, for edits that change the recording's rate
+}
+
+// Bytes kept for undo across all entries before the oldest are dropped; the
+// newest entry is always kept, however large
+export const MAX_HISTORY_BYTES = 128 * 1024 * 1024;
+
+// Roughly what one [x, y, z] tuple costs as a JS array; packed points cost 12
+const POINT_BYTES = 64;
+
+// Patch sides shorter than this stay as they are; packing saves little on them
+const PACK_MIN_FRAMES = 32;
+
+const isPacked = (frames: StoredFrames): frames is PackedFrames => !Array.isArray(frames);
+
+const pack = (frames: HandFrame[]): PackedFrames => ({
+  buffer: encodePacked({ frames }),
+  times: Float64Array.from(frames, (frame) => frame.t ?? NaN),
+  length: frames.length,
+});
+
+// Packed frames decode as lazy views, so restoring a step doesn't build every point up front
+const unpack = (frames: StoredFrames): HandFrame[] => {
+  if (!isPacked(frames)) return frames;
+  return packedFrames(decodePacked(frames.buffer)).map((frame, i) => {
+    frame.t = Number.isNaN(frames.times[i]) ? undefined : frames.times[i];
+    return frame;
+  });
+};
+
+// A channel the frame holds. Channels of a frame from packedFrames that were
+// never read are still only its Float32 row, and reading them here would build them.
+const heldChannel = <K extends keyof HandFrame>(frame: HandFrame, key: K): HandFrame[K] | undefined => {
+  const descriptor = Object.getOwnPropertyDescriptor(frame, key);
+  return descriptor && !descriptor.get ? descriptor.value : undefined;
+};
+
+// Landmark data a list of frames holds, in bytes per array or packed row, so
+// data shared between frames or with another list can be counted once
+const landmarkData = (frames: HandFrame[]): Map<object, number> => {
+  const data = new Map<object, number>();
+  const add = (array: object | undefined, points: number) => {
+    if (array) data.set(array, points * POINT_BYTES);
+  };
+  for (const frame of frames) {
+    const view = frameView(frame);
+    if (view) data.set(view, view.packed.layout.stride * Float32Array.BYTES_PER_ELEMENT);
+    add(heldChannel(frame, 'leftHand'), 21);
+    add(heldChannel(frame, 'rightHand'), 21);
+    add(heldChannel(frame, 'leftArm'), 3);
+    add(heldChannel(frame, 'rightArm'), 3);
+    add(heldChannel(frame, 'pose'), heldChannel(frame, 'pose')?.length ?? 0);
+    add(heldChannel(frame, 'face'), heldChannel(frame, 'face')?.length ?? 0);
+  }
+  return data;
+};
+
+// Keys of landmarkData that stand for a packed frame's row rather than an array
+const isPackedRow = (key: object): key is FrameView => 'packed' in key;
+
+const totalBytes = (data: Map<object, number>) => {
+  let bytes = 0;
+  for (const size of data.values()) bytes += size;
+  return bytes;
+};
+
+const sizes = new WeakMap<FramePatch, number>();
+
+// Bytes a patch holds; landmark data shared between frames or between its two
+// sides, as after a trim or a label edit, counts once
+export const patchBytes = (patch: FramePatch): number => {
+  let bytes = sizes.get(patch);
+  if (bytes !== undefined) return bytes;
+  const data = new Map<object, number>();
+  bytes = 0;
+  for (const side of [patch.removed, patch.inserted]) {
+    if (isPacked(side)) bytes += side.buffer.byteLength + side.times.byteLength;
+    else landmarkData(side).forEach((size, key) => data.set(key, size));
+  }
+  bytes += totalBytes(data);
+  sizes.set(patch, bytes);
+  return bytes;
+};
+
+export const storedBytes = (entries: HistoryEntry[]) =>
+  entries.reduce((sum, { patch }) => sum + patchBytes(patch), 0);
+
+// Oldest entries dropped until the rest fit in `budget` bytes
+export const capHistory = (entries: HistoryEntry[], budget = MAX_HISTORY_BYTES): HistoryEntry[] => {
+  let total = storedBytes(entries);
+  let first = 0;
+  while (first < entries.length - 1 && total > budget) {
+    total -= patchBytes(entries[first].patch);
+    first++;
+  }
+  return first === 0 ? entries : entries.slice(first);
+};
+
+// The patch with `side` packed, once those frames are off screen, when most of
+// their landmark data is point tuples of their own rather than shared with the
+// other side or already packed. The points come back as Float32, which is what
+// .signbin files keep anyway.
+export const packPatch = (patch: FramePatch, side: 'removed' | 'inserted'): FramePatch => {
+  const frames = patch[side];
+  if (isPacked(frames) || frames.length < PACK_MIN_FRAMES) return patch;
+  const other = patch[side === 'removed' ? 'inserted' : 'removed'];
+  const own = landmarkData(frames);
+  const shared = isPacked(other) ? new Map<object, number>() : landmarkData(other);
+  let compact = 0;
+  own.forEach((size, key) => {
+    if (shared.has(key) || isPackedRow(key)) compact += size;
+  });
+  if (compact * 2 >= totalBytes(own)) return patch;
+  return { ...patch, [side]: pack(frames) };
+};
+
+// The changed stretch between two versions, trimmed of shared frames at both ends
+export const diffFrames = (before: HandFrame[], after: HandFrame[]): FramePatch => {
+  let start = 0;
+  const shortest = Math.min(before.length, after.length);
+  while (start < shortest && before[start] === after[start]) start++;
+  let tail = 0;
+  while (
+    tail < shortest - start &&
+    before[before.length - 1 - tail] === after[after.length - 1 - tail]
+  ) {
+    tail++;
+  }
+  return {
+    start,
+    removed: before.slice(start, before.length - tail),
+    inserted: after.slice(start, after.length - tail),
+  };
+};
+
+export const isEmptyPatch = ({ removed, inserted }: FramePatch) => removed.length === 0 && inserted.length === 0;
+
+export const applyPatch = (frames: HandFrame[], { start, removed, inserted }: FramePatch): HandFrame[] => [
+  ...frames.slice(0, start),
+  ...unpack(inserted),
+  ...frames.slice(start + removed.length),
+];
+
+export const revertPatch = (frames: HandFrame[], { start, removed, inserted }: FramePatch): HandFrame[] => [
+  ...frames.slice(0, start),
+  ...unpack(removed),
+  ...frames.slice(start + inserted.length),
+];
@@ -0,0 +1,107 @@
+import { HandFrame, averageFrameInterval, hasTimestamps } from '@/types/hand-data';
+import { resampleFrames } from '@/lib/resample';
+import { FrameRange, trimFrames } from '@/lib/trim';
+
+// Cut/copy/paste style edits on a range of frames. Every operation is a splice:
+// frames before the range are shared untouched, and in recordings with capture
+// timestamps the new frames are restamped from the spacing they had and the
+// frames after them shifted, so real-time playback stays in order.
+
+// A frame to insert and the gap in ms between it and the frame before it
+interface TimedFrame {
+  frame: HandFrame;
+  gap: number;
+}
+
+// Gap before frame `index`; the first frame borrows the recording's average spacing
+const gapBefore = (frames: HandFrame[], index: number): number =>
+  index > 0 ? frames[index].t! - frames[index - 1].t! : averageFrameInterval(frames) ?? 0;
+
+// The frames in `range` with the gaps they were captured with
+const timedRange = (frames: HandFrame[], { start, end }: FrameRange): TimedFrame[] =>
+  frames.slice(start, end).map((frame, i) => ({ frame, gap: gapBefore(frames, start + i) }));
+
+// Replace `deleteCount` frames at `start` with `inserted`, keeping timestamps increasing
+const spliceFrames = (frames: HandFrame[], start: number, deleteCount: number, inserted: TimedFrame[]): HandFrame[] => {
+  const before = frames.slice(0, start);
+  const after = frames.slice(start + deleteCount);
+  if (!hasTimestamps(frames)) {
+    return [...before, ...inserted.map(({ frame }) => frame), ...after];
+  }
+
+  let t = start > 0 ? frames[start - 1].t! : undefined;
+  const stamp = (frame: HandFrame, gap: number): HandFrame => {
+    t = t === undefined ? frames[0].t! : t + gap;
+    return frame.t === t ? frame : { ...frame, t };
+  };
+  const middle = inserted.map(({ frame, gap }) => stamp(frame, gap));
+  if (after.length === 0) return [...before, ...middle];
+
+  // Everything after moves by the same amount, so it stays shared when nothing moved
+  const first = stamp(after[0], gapBefore(frames, start + deleteCount));
+  const shift = first.t! - after[0].t!;
+  return [...before, ...middle, ...after.map((frame) => (shift === 0 ? frame : { ...frame, t: frame.t! + shift }))];
+};
+
+export const rangeLength = ({ start, end }: FrameRange) => end - start;
+
+// The range clamped to the recording; null when nothing is left of it
+export const clampRange = ({ start, end }: FrameRange, length: number): FrameRange | null => {
+  const clamped = { start: Math.max(0, Math.min(start, length)), end: Math.max(0, Math.min(end, length)) };
+  return clamped.end > clamped.start ? clamped : null;
+};
+
+// Frames for the clipboard, with timestamps rebased to 0 like a trimmed recording
+export const copyRange = (frames: HandFrame[], range: FrameRange): HandFrame[] => trimFrames(frames, range);
+
+export const deleteRange = (frames: HandFrame[], { start, end }: FrameRange): HandFrame[] =>
+  spliceFrames(frames, start, end - start, []);
+
+// Clipboard frames inserted before frame `at`, spaced as they were recorded
+export const insertFrames = (frames: HandFrame[], at: number, clip: HandFrame[]): HandFrame[] => {
+  const clipGaps = hasTimestamps(clip);
+  const spacing = averageFrameInterval(frames) ?? 0;
+  const inserted = clip.map((frame, i) => ({
+    frame: { ...frame },
+    gap: clipGaps && i > 0 ? clip[i].t! - clip[i - 1].t! : spacing,
+  }));
+  return spliceFrames(frames, at, 0, inserted);
+};
+
+// A copy of the range right after it, e.g. to hold a sign for longer
+export const duplicateRange = (frames: HandFrame[], range: FrameRange): HandFrame[] =>
+  spliceFrames(
+    frames,
+    range.end,
+    0,
+    timedRange(frames, range).map(({ frame, gap }) => ({ frame: { ...frame }, gap }))
+  );
+
+// The range played backwards; the gap into the range stays where it was
+export const reverseRange = (frames: HandFrame[], range: FrameRange): HandFrame[] => {
+  const timed = timedRange(frames, range);
+  const count = timed.length;
+  const reversed = timed.map((_, i) => ({
+    frame: timed[count - 1 - i].frame,
+    gap: i === 0 ? timed[0].gap : timed[count - i].gap,
+  }));
+  return spliceFrames(frames, range.start, count, reversed);
+};
+
+// The range slowed down (factor > 1) or sped up (factor < 1) by resampling its
+// frames; the new frames keep the range's frame spacing, so it lasts `factor`
+// times as long
+export const stretchRange = (frames: HandFrame[], range: FrameRange, factor: number): HandFrame[] => {
+  if (rangeLength(range) < 2 || !(factor > 0)) return frames;
+  const timed = timedRange(frames, range);
+  // Resampled by index, one unit apart, so uneven capture spacing doesn't change the count
+  const clip = timed.map(({ frame }) => ({ ...frame, t: undefined }));
+  const stretched = resampleFrames(clip, factor, 1);
+  const spacing = timed.slice(1).reduce((sum, { gap }) => sum + gap, 0) / (timed.length - 1);
+  return spliceFrames(
+    frames,
+    range.start,
+    rangeLength(range),
+    stretched.map((frame, i) => ({ frame, gap: i === 0 ? timed[0].gap : spacing }))
+  );
+};
@@ -0,0 +1,176 @@
+import * as THREE from 'three';
+import { HandFrame, frameTimes, isHandVisible } from '@/types/hand-data';
+
+// Gap filling for hands that MediaPipe lost for a few frames. Capture writes a
+// lost hand as zeros, which the avatars show as a snap to the rest pose; short
+// gaps between two tracked frames are interpolated instead and flagged with
+// leftInterpolated / rightInterpolated so exports can tell them from real data.
+
+type Point = [number, number, number];
+type Side = 'left' | 'right';
+
+export type GapFillMethod = 'linear' | 'cubic' | 'slerp';
+
+export const GAP_FILL_METHODS: { id: GapFillMethod; name: string; description: string }[] = [
+  { id: 'linear', name: 'Linear', description: 'Straight line between the frames either side' },
+  { id: 'cubic', name: 'Cubic', description: 'Smooth curve that keeps the velocity going into and out of the gap' },
+  {
+    id: 'slerp',
+    name: 'Bone rotation (SLERP)',
+    description: 'Rotates each bone between its directions either side; fingers keep their length',
+  },
+];
+
+export interface GapFillOptions {
+  method: GapFillMethod;
+  maxGap: number; // Longest gap (frames) that is filled; longer ones are left as untracked
+}
+
+export const DEFAULT_GAP_FILL: GapFillOptions = { method: 'cubic', maxGap: 8 };
+
+// A run of frames where one hand is missing; `end` is exclusive
+export interface HandGap {
+  side: Side;
+  start: number;
+  end: number;
+}
+
+// Parent of each hand landmark in the wrist → fingertip chains
+const HAND_PARENTS = [-1, 0, 1, 2, 3, 0, 5, 6, 7, 0, 9, 10, 11, 0, 13, 14, 15, 0, 17, 18, 19];
+
+const handOf = (frame: HandFrame, side: Side) => (side === 'left' ? frame.leftHand : frame.rightHand);
+const confidenceOf = (frame: HandFrame, side: Side) => (side === 'left' ? frame.leftConfidence : frame.rightConfidence);
+const isVisible = (frame: HandFrame, side: Side) => isHandVisible(handOf(frame, side), confidenceOf(frame, side));
+
+// Every run of missing frames with tracked frames on both sides. Gaps at the very
+// start or end have nothing to interpolate towards and aren't reported.
+export const findHandGaps = (frames: HandFrame[]): HandGap[] => {
+  const gaps: HandGap[] = [];
+  for (const side of ['left', 'right'] as const) {
+    let lastVisible = -1;
+    frames.forEach((frame, i) => {
+      if (!isVisible(frame, side)) return;
+      if (lastVisible >= 0 && i - lastVisible > 1) {
+        gaps.push({ side, start: lastVisible + 1, end: i });
+      }
+      lastVisible = i;
+    });
+  }
+  return gaps.sort((a, b) => a.start - b.start);
+};
+
+const lerp = (a: Point, b: Point, u: number): Point => [
+  a[0] + (b[0] - a[0]) * u,
+  a[1] + (b[1] - a[1]) * u,
+  a[2] + (b[2] - a[2]) * u,
+];
+
+// Cubic Hermite between a (time ta) and b (tb); the tangents come from the frames
+// just outside the gap, or fall back to the chord where there are none
+const hermite = (
+  before: { p: Point; t: number },
+  a: { p: Point; t: number },
+  b: { p: Point; t: number },
+  after: { p: Point; t: number },
+  time: number
+): Point => {
+  const span = b.t - a.t;
+  const u = (time - a.t) / span;
+  const h00 = 2 * u ** 3 - 3 * u ** 2 + 1;
+  const h10 = u ** 3 - 2 * u ** 2 + u;
+  const h01 = -2 * u ** 3 + 3 * u ** 2;
+  const h11 = u ** 3 - u ** 2;
+  return [0, 1, 2].map((axis) => {
+    const m0 = (b.p[axis] - before.p[axis]) / (b.t - before.t);
+    const m1 = (after.p[axis] - a.p[axis]) / (after.t - a.t);
+    return h00 * a.p[axis] + h10 * span * m0 + h01 * b.p[axis] + h11 * span * m1;
+  }) as Point;
+};
+
+const dirA = new THREE.Vector3();
+const dirB = new THREE.Vector3();
+const rotation = new THREE.Quaternion();
+const identity = new THREE.Quaternion();
+
+// Wrist moved linearly; every bone keeps turning from its direction in `a` to its
+// direction in `b` about a single axis, with its length blended
+const slerpHand = (a: Point[], b: Point[], u: number): Point[] => {
+  const out: Point[] = [lerp(a[0], b[0], u)];
+  for (let i = 1; i < HAND_PARENTS.length; i++) {
+    const parent = HAND_PARENTS[i];
+    dirA.set(a[i][0] - a[parent][0], a[i][1] - a[parent][1], a[i][2] - a[parent][2]);
+    dirB.set(b[i][0] - b[parent][0], b[i][1] - b[parent][1], b[i][2] - b[parent][2]);
+    const length = THREE.MathUtils.lerp(dirA.length(), dirB.length(), u);
+    if (dirA.lengthSq() < 1e-12 || dirB.lengthSq() < 1e-12) {
+      out.push(lerp(a[i], b[i], u));
+      continue;
+    }
+    dirA.normalize();
+    rotation.setFromUnitVectors(dirA, dirB.normalize());
+    dirA.applyQuaternion(identity.identity().slerp(rotation, u)).multiplyScalar(length);
+    out.push([out[parent][0] + dirA.x, out[parent][1] + dirA.y, out[parent][2] + dirA.z]);
+  }
+  return out;
+};
+
+// Confidence blended from the frames either side; none when neither side has any
+const blendConfidence = (a: number[] | undefined, b: number[] | undefined, u: number): number[] | undefined => {
+  if (!a && !b) return undefined;
+  return Array.from({ length: 21 }, (_, i) => {
+    const ca = a?.[i] ?? 1;
+    const cb = b?.[i] ?? 1;
+    return ca + (cb - ca) * u;
+  });
+};
+
+const fillGap = (frames: HandFrame[], out: HandFrame[], gap: HandGap, method: GapFillMethod, times: number[]) => {
+  const { side } = gap;
+  const a = gap.start - 1;
+  const b = gap.end;
+  const handA = handOf(frames[a], side);
+  const handB = handOf(frames[b], side);
+  // Neighbours beyond the gap steer the cubic's tangents when they are tracked too
+  const before = a > 0 && isVisible(frames[a - 1], side) ? a - 1 : a;
+  const after = b < frames.length - 1 && isVisible(frames[b + 1], side) ? b + 1 : b;
+
+  for (let i = gap.start; i < gap.end; i++) {
+    const u = (times[i] - times[a]) / (times[b] - times[a]);
+    let hand: Point[];
+    if (method === 'slerp') {
+      hand = slerpHand(handA, handB, u);
+    } else if (method === 'cubic') {
+      const sample = (frame: number, joint: number) => ({ p: handOf(frames[frame], side)[joint], t: times[frame] });
+      hand = handA.map((_, joint) =>
+        hermite(sample(before, joint), sample(a, joint), sample(b, joint), sample(after, joint), times[i])
+      );
+    } else {
+      hand = handA.map((p, joint) => lerp(p, handB[joint], u));
+    }
+    const confidence = blendConfidence(confidenceOf(frames[a], side), confidenceOf(frames[b], side), u);
+    out[i] = side === 'left'
+      ? { ...out[i], leftHand: hand, leftConfidence: confidence, leftInterpolated: true }
+      : { ...out[i], rightHand: hand, rightConfidence: confidence, rightInterpolated: true };
+  }
+};
+
+export interface GapFillResult {
+  frames: HandFrame[];
+  filled: HandGap[];
+  skipped: HandGap[]; // Longer than maxGap
+}
+
+// Copy of the recording with every gap up to maxGap frames filled. `fps` spaces
+// frames for recordings without timestamps.
+export const fillHandGaps = (frames: HandFrame[], { method, maxGap }: GapFillOptions, fps: number): GapFillResult => {
+  const gaps = findHandGaps(frames);
+  const filled = gaps.filter((gap) => gap.end - gap.start <= maxGap);
+  const skipped = gaps.filter((gap) => gap.end - gap.start > maxGap);
+  if (filled.length === 0) return { frames, filled, skipped };
+
+  const times = frameTimes(frames, fps);
+  const out = [...frames];
+  for (const gap of filled) {
+    fillGap(frames, out, gap, method, times);
+  }
+  return { frames: out, filled, skipped };
+};
@@ -0,0 +1,144 @@
+import { ArmLandmarks, HandFrame } from '@/types/hand-data';
+import { CodecError, RecordingMetadata, SignRecording } from '@/lib/codecs';
+import { ArchiveEntry } from '@/lib/zip';
+
+// Importer for OpenPose keypoint JSON as published with WLASL, How2Sign and
+// similar datasets: one file per video frame, e.g. "clip_000000000012_keypoints.json",
+// each holding { people: [{ pose_keypoints_2d, hand_left_keypoints_2d, hand_right_keypoints_2d }] }
+// with flat [x, y, confidence, ...] triples in pixels.
+
+export interface OpenPoseOptions {
+  width: number; // Source video size in pixels, used to normalise to 0–1
+  height: number;
+  fps?: number; // Frame rate of the source video, for timestamps
+  label: string;
+}
+
+interface OpenPosePerson {
+  pose_keypoints_2d?: number[];
+  hand_left_keypoints_2d?: number[];
+  hand_right_keypoints_2d?: number[];
+}
+
+// BODY_25 indices for the arm chains (the person's own left/right)
+const BODY25_LEFT_ARM = [5, 6, 7]; // LShoulder, LElbow, LWrist
+const BODY25_RIGHT_ARM = [2, 3, 4]; // RShoulder, RElbow, RWrist
+
+const HAND_POINTS = 21;
+
+export const isOpenPoseFile = (name: string) => name.toLowerCase().endsWith('.json');
+
+// Natural order so frame_2 sorts before frame_10 even without zero padding
+const compareNames = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+// Folder part of an entry path; '' for files at the top of the selection
+const folderOf = (name: string) => name.slice(0, Math.max(0, name.lastIndexOf('/')));
+
+// Keypoint files by the folder they sit in, folders and files in natural order.
+// Each folder holds one clip, so a drop of several folders is several recordings.
+export const groupByClip = (entries: ArchiveEntry[]): Map<string, ArchiveEntry[]> => {
+  const clips = new Map<string, ArchiveEntry[]>();
+  const files = entries.filter((e) => isOpenPoseFile(e.name)).sort((a, b) => compareNames(a.name, b.name));
+  for (const file of files) {
+    const folder = folderOf(file.name);
+    clips.set(folder, [...(clips.get(folder) ?? []), file]);
+  }
+  return new Map([...clips].sort(([a], [b]) => compareNames(a, b)));
+};
+
+// OpenPose writes undetected keypoints as (0, 0, 0). Detected ones are mirrored in X
+// like live captures, so imported signs face the same way as our own recordings.
+const readKeypoint = (
+  flat: number[] | undefined,
+  index: number,
+  { width, height }: OpenPoseOptions
+): { point: [number, number, number]; confidence: number } => {
+  const x = flat?.[index * 3] ?? 0;
+  const y = flat?.[index * 3 + 1] ?? 0;
+  const confidence = flat?.[index * 3 + 2] ?? 0;
+  if (confidence <= 0) {
+    return { point: [0, 0, 0], confidence: 0 };
+  }
+  // OpenPose is 2D only, so depth stays 0
+  return { point: [1.0 - x / width, y / height, 0], confidence };
+};
+
+const readHand = (flat: number[] | undefined, options: OpenPoseOptions) => {
+  const points = Array.from({ length: HAND_POINTS }, (_, i) => readKeypoint(flat, i, options));
+  return { landmarks: points.map((p) => p.point), confidence: points.map((p) => p.confidence) };
+};
+
+const readArm = (flat: number[] | undefined, indices: number[], options: OpenPoseOptions): ArmLandmarks | undefined => {
+  const [shoulder, elbow, wrist] = indices.map((i) => readKeypoint(flat, i, options));
+  if (shoulder.confidence === 0 && elbow.confidence === 0 && wrist.confidence === 0) return undefined;
+  return {
+    shoulder: shoulder.point,
+    elbow: elbow.point,
+    wrist: wrist.point,
+    confidence: [shoulder.confidence, elbow.confidence, wrist.confidence],
+  };
+};
+
+const parseFrameFile = (entry: ArchiveEntry): OpenPosePerson | null => {
+  let parsed: { people?: OpenPosePerson[] };
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(entry.data));
+  } catch (error) {
+    throw new CodecError(`${entry.name}: invalid JSON (${(error as Error).message})`);
+  }
+  if (!parsed || !Array.isArray(parsed.people)) {
+    throw new CodecError(`${entry.name}: not an OpenPose keypoint file (no "people" list)`);
+  }
+  // Dataset clips show a single signer; the first person is the one OpenPose is most sure of
+  return parsed.people[0] ?? null;
+};
+
+// Keypoint files written with -keypoint_scale 3 are already 0–1; spot that from the data
+export const detectNormalisedKeypoints = (entries: ArchiveEntry[]): boolean => {
+  const sample = entries.slice(0, 10).map(parseFrameFile);
+  const values = sample.flatMap((person) => [
+    ...(person?.pose_keypoints_2d ?? []),
+    ...(person?.hand_left_keypoints_2d ?? []),
+    ...(person?.hand_right_keypoints_2d ?? []),
+  ]);
+  return values.length > 0 && values.every((v) => v <= 1.0001);
+};
+
+// Entries must come from one folder (see groupByClip); sorting several clips'
+// frames together would interleave them into one recording
+export const decodeOpenPose = (entries: ArchiveEntry[], options: OpenPoseOptions): SignRecording => {
+  const clips = groupByClip(entries);
+  if (clips.size === 0) {
+    throw new CodecError('No OpenPose keypoint .json files found');
+  }
+  if (clips.size > 1) {
+    throw new CodecError(`Keypoint files come from ${clips.size} folders; import one clip at a time`);
+  }
+  const [files] = clips.values();
+  if (!(options.width > 0 && options.height > 0)) {
+    throw new CodecError('Video width and height must be positive');
+  }
+
+  const frames: HandFrame[] = files.map((file, i) => {
+    const person = parseFrameFile(file);
+    const left = readHand(person?.hand_left_keypoints_2d, options);
+    const right = readHand(person?.hand_right_keypoints_2d, options);
+    const frame: HandFrame = {
+      label: options.label,
+      leftHand: left.landmarks,
+      rightHand: right.landmarks,
+      leftConfidence: left.confidence,
+      rightConfidence: right.confidence,
+      leftArm: readArm(person?.pose_keypoints_2d, BODY25_LEFT_ARM, options),
+      rightArm: readArm(person?.pose_keypoints_2d, BODY25_RIGHT_ARM, options),
+    };
+    if (options.fps) {
+      frame.t = (i * 1000) / options.fps;
+    }
+    return frame;
+  });
+
+  const metadata: RecordingMetadata = { model: { name: 'OpenPose BODY_25' } };
+  if (options.fps) metadata.sourceFps = options.fps;
+  return { frames, metadata };
+};
@@ -0,0 +1,86 @@
+import { HandFrame } from '@/types/hand-data';
+
+// A contiguous run of frames sharing one label; `end` is exclusive
+export interface LabelRun {
+  start: number;
+  end: number;
+  label: string;
+}
+
+// Collapse the per-frame labels into runs
+export const getLabelRuns = (frames: HandFrame[]): LabelRun[] => {
+  const runs: LabelRun[] = [];
+  frames.forEach((frame, index) => {
+    const last = runs[runs.length - 1];
+    if (last && last.label === frame.label) {
+      last.end = index + 1;
+    } else {
+      runs.push({ start: index, end: index + 1, label: frame.label });
+    }
+  });
+  return runs;
+};
+
+// Write run labels back into the frames; frames outside every run keep their label
+export const applyLabelRuns = (frames: HandFrame[], runs: LabelRun[]): HandFrame[] => {
+  const labels = frames.map((frame) => frame.label);
+  for (const run of runs) {
+    for (let i = Math.max(0, run.start); i < Math.min(frames.length, run.end); i++) {
+      labels[i] = run.label;
+    }
+  }
+  return frames.map((frame, i) => (frame.label === labels[i] ? frame : { ...frame, label: labels[i] }));
+};
+
+// Stable colour for a label, so the same sign looks the same on every track
+export const labelColor = (label: string): string => {
+  let hash = 0;
+  for (let i = 0; i < label.length; i++) {
+    hash = (hash * 31 + label.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360} 65% 55%)`;
+};
+
+// Edits on a run list; each returns a new list that still covers the same frames
+
+// Move the boundary after run `index` to `frame`, keeping at least one frame either side
+export const moveLabelBoundary = (runs: LabelRun[], index: number, frame: number): LabelRun[] => {
+  const [a, b] = [runs[index], runs[index + 1]];
+  if (!a || !b) return runs;
+  const boundary = Math.min(b.end - 1, Math.max(a.start + 1, Math.round(frame)));
+  return runs.map((run, i) =>
+    i === index ? { ...run, end: boundary } : i === index + 1 ? { ...run, start: boundary } : run
+  );
+};
+
+// A label not used by any run, based on `label`: "Hello 2", "Hello 3", ...
+const freshLabel = (runs: LabelRun[], label: string) => {
+  const used = new Set(runs.map((run) => run.label));
+  let n = 2;
+  while (used.has(`${label} ${n}`)) n++;
+  return `${label} ${n}`;
+};
+
+// Split the run containing `frame` so the second part starts there. The second
+// part gets its own label, as runs with equal labels would merge in the frames.
+export const splitLabelRun = (runs: LabelRun[], frame: number): LabelRun[] => {
+  const index = runs.findIndex((run) => frame > run.start && frame < run.end);
+  if (index < 0) return runs;
+  const run = runs[index];
+  return [
+    ...runs.slice(0, index),
+    { ...run, end: frame },
+    { start: frame, end: run.end, label: freshLabel(runs, run.label) },
+    ...runs.slice(index + 1),
+  ];
+};
+
+// Merge run `index` with the one after it, keeping the first run's label
+export const mergeLabelRuns = (runs: LabelRun[], index: number): LabelRun[] => {
+  const [a, b] = [runs[index], runs[index + 1]];
+  if (!a || !b) return runs;
+  return [...runs.slice(0, index), { ...a, end: b.end }, ...runs.slice(index + 2)];
+};
+
+export const renameLabelRun = (runs: LabelRun[], index: number, label: string): LabelRun[] =>
+  runs.map((run, i) => (i === index ? { ...run, label } : run));
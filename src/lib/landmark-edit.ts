@@ -0,0 +1,71 @@
+import { HandFrame, isHandVisible } from '@/types/hand-data';
+
+// Manual corrections for landmarks MediaPipe got wrong. An edit moves a set of
+// hand landmarks by one offset (image coordinates) on one frame and, with a
+// radius, by a fading share of it on the frames around, so the fix blends into
+// the motion instead of popping for a single frame.
+
+type Point = [number, number, number];
+
+export type HandSide = 'left' | 'right';
+
+export interface LandmarkRef {
+  side: HandSide;
+  index: number; // 0-20, MediaPipe hand landmark
+}
+
+export interface LandmarkEdit {
+  frame: number;
+  landmarks: LandmarkRef[];
+  delta: Point; // Offset in the recording's mirrored 0-1 image space
+  radius: number; // Frames either side that get part of the offset; 0 edits one frame
+}
+
+export const landmarkKey = ({ side, index }: LandmarkRef) => `${side}:${index}`;
+
+// Share of the offset applied `distance` frames away: a raised cosine that is 1
+// on the edited frame and fades out just past the radius
+export const falloffWeight = (distance: number, radius: number): number => {
+  if (distance > radius) return 0;
+  return 0.5 * (1 + Math.cos((Math.PI * distance) / (radius + 1)));
+};
+
+// Copy of the recording with the edit applied; untouched frames are shared, and
+// frames where the hand isn't tracked are left alone
+export const applyLandmarkEdit = (frames: HandFrame[], { frame, landmarks, delta, radius }: LandmarkEdit): HandFrame[] => {
+  if (landmarks.length === 0 || delta.every((d) => d === 0)) return frames;
+  const out = [...frames];
+  const from = Math.max(0, frame - radius);
+  const to = Math.min(frames.length - 1, frame + radius);
+  for (let i = from; i <= to; i++) {
+    const weight = falloffWeight(Math.abs(i - frame), radius);
+    if (weight === 0) continue;
+    let edited = out[i];
+    for (const side of ['left', 'right'] as const) {
+      const indices = landmarks.filter((l) => l.side === side).map((l) => l.index);
+      const [handKey, confidenceKey] = side === 'left'
+        ? (['leftHand', 'leftConfidence'] as const)
+        : (['rightHand', 'rightConfidence'] as const);
+      if (indices.length === 0 || !isHandVisible(edited[handKey], edited[confidenceKey])) continue;
+      const hand = edited[handKey].map((p, j): Point =>
+        indices.includes(j) ? [p[0] + delta[0] * weight, p[1] + delta[1] * weight, p[2] + delta[2] * weight] : p
+      );
+      edited = { ...edited, [handKey]: hand };
+    }
+    out[i] = edited;
+  }
+  return out;
+};
+
+const FINGERS = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+const FINGER_JOINTS = ['MCP', 'PIP', 'DIP', 'tip'];
+const THUMB_JOINTS = ['CMC', 'MCP', 'IP', 'tip'];
+
+// Short name for the editor, e.g. "L index tip"
+export const landmarkName = ({ side, index }: LandmarkRef): string => {
+  const prefix = side === 'left' ? 'L' : 'R';
+  if (index === 0) return `${prefix} wrist`;
+  const finger = Math.floor((index - 1) / 4);
+  const joints = finger === 0 ? THUMB_JOINTS : FINGER_JOINTS;
+  return `${prefix} ${FINGERS[finger]} ${joints[(index - 1) % 4]}`;
+};
@@ -0,0 +1,140 @@
+import { ArmLandmarks, FACE_KEYPOINTS, HandFrame } from '@/types/hand-data';
+
+// Conversion from MediaPipe Holistic / Hands results to our frame layout, shared
+// by live capture and the offline JSON importer so both produce identical data.
+
+export interface MediaPipeLandmark {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+  presence?: number;
+}
+
+export interface MediaPipeHandedness {
+  label: string; // 'Left' | 'Right' as seen by the camera
+  score?: number;
+}
+
+// The subset of a results object we read, in the JS solution's naming
+export interface MediaPipeResults {
+  poseLandmarks?: MediaPipeLandmark[] | null;
+  faceLandmarks?: MediaPipeLandmark[] | null;
+  leftHandLandmarks?: MediaPipeLandmark[] | null;
+  rightHandLandmarks?: MediaPipeLandmark[] | null;
+  multiHandLandmarks?: MediaPipeLandmark[][] | null;
+  multiHandedness?: MediaPipeHandedness[] | null;
+}
+
+export type TrackedFrame = Omit<HandFrame, 'label' | 't'>;
+
+// Which of Holistic's optional tracks to keep besides hands and arms. Holistic
+// always computes them; keeping the full face mesh multiplies file size ~10×.
+export interface BodyTracks {
+  pose: boolean;
+  face: 'off' | 'keypoints' | 'mesh';
+}
+
+export const DEFAULT_BODY_TRACKS: BodyTracks = { pose: false, face: 'off' };
+
+// Offline imports keep whatever the dump contains
+export const ALL_BODY_TRACKS: BodyTracks = { pose: true, face: 'mesh' };
+
+// Hand landmarks from Holistic report visibility as 0 (the field is unset), so only a
+// positive value is trusted; otherwise fall back to the hand's detection score
+export const landmarkConfidence = (landmark: { visibility?: number; presence?: number }, fallback: number): number => {
+  if (typeof landmark.visibility === 'number' && landmark.visibility > 0) return landmark.visibility;
+  if (typeof landmark.presence === 'number' && landmark.presence > 0) return landmark.presence;
+  return fallback;
+};
+
+// Mirror X so the avatar moves like a reflection of the signer
+const mirrorLandmark = (lm: MediaPipeLandmark): [number, number, number] => [1.0 - lm.x, lm.y, lm.z];
+
+const armFromPose = (pose: MediaPipeLandmark[], shoulder: number, elbow: number, wrist: number): ArmLandmarks | undefined => {
+  if (!pose[shoulder] || !pose[elbow] || !pose[wrist]) return undefined;
+  return {
+    shoulder: mirrorLandmark(pose[shoulder]),
+    elbow: mirrorLandmark(pose[elbow]),
+    wrist: mirrorLandmark(pose[wrist]),
+    confidence: [pose[shoulder].visibility ?? 1, pose[elbow].visibility ?? 1, pose[wrist].visibility ?? 1],
+  };
+};
+
+// Results are treated as Holistic whenever poseLandmarks is present (even if null)
+export const isHolisticResults = (results: MediaPipeResults) => results.poseLandmarks !== undefined;
+
+const faceFromResults = (face: MediaPipeLandmark[], mode: BodyTracks['face']): [number, number, number][] => {
+  if (mode === 'keypoints') {
+    // Iris points only exist on refined meshes; keep the layout fixed with zeros
+    return FACE_KEYPOINTS.map((i) => (face[i] ? mirrorLandmark(face[i]) : [0, 0, 0]));
+  }
+  return face.map(mirrorLandmark);
+};
+
+export const resultsToFrame = (results: MediaPipeResults, tracks: BodyTracks = DEFAULT_BODY_TRACKS): TrackedFrame => {
+  // Untracked hands get confidence 0 so they can't be mistaken for points at the origin
+  let leftHand: [number, number, number][] = Array(21).fill([0, 0, 0]);
+  let rightHand: [number, number, number][] = Array(21).fill([0, 0, 0]);
+  let leftConfidence: number[] = Array(21).fill(0);
+  let rightConfidence: number[] = Array(21).fill(0);
+  let leftArm: ArmLandmarks | undefined;
+  let rightArm: ArmLandmarks | undefined;
+  let pose: [number, number, number][] | undefined;
+  let poseConfidence: number[] | undefined;
+  let face: [number, number, number][] | undefined;
+
+  if (isHolisticResults(results)) {
+    // MediaPipe Holistic naming convention:
+    // - "left" in MediaPipe = the person's actual left side (appears on RIGHT of camera view)
+    // - "right" in MediaPipe = the person's actual right side (appears on LEFT of camera view)
+    //
+    // After mirroring (1.0 - x), the avatar's left side should match user's left side
+    // So: MediaPipe leftHand -> avatar leftHand, MediaPipe rightHand -> avatar rightHand
+    // And arm indices: 11,13,15 = MediaPipe "left" side, 12,14,16 = MediaPipe "right" side
+    const poseLandmarks = results.poseLandmarks;
+    if (poseLandmarks && poseLandmarks.length > 0) {
+      leftArm = armFromPose(poseLandmarks, 11, 13, 15);
+      rightArm = armFromPose(poseLandmarks, 12, 14, 16);
+      if (tracks.pose) {
+        pose = poseLandmarks.map(mirrorLandmark);
+        poseConfidence = poseLandmarks.map((lm) => lm.visibility ?? 1);
+      }
+    }
+    if (tracks.face !== 'off' && results.faceLandmarks && results.faceLandmarks.length > 0) {
+      face = faceFromResults(results.faceLandmarks, tracks.face);
+    }
+
+    if (results.leftHandLandmarks) {
+      leftHand = results.leftHandLandmarks.map(mirrorLandmark);
+      leftConfidence = results.leftHandLandmarks.map((lm) => landmarkConfidence(lm, 1));
+    }
+    if (results.rightHandLandmarks) {
+      rightHand = results.rightHandLandmarks.map(mirrorLandmark);
+      rightConfidence = results.rightHandLandmarks.map((lm) => landmarkConfidence(lm, 1));
+    }
+  } else if (results.multiHandLandmarks && results.multiHandedness) {
+    results.multiHandLandmarks.forEach((landmarks, index) => {
+      const handedness = results.multiHandedness![index];
+      if (!handedness) return;
+      const score = handedness.score ?? 1;
+      const landmarkData = landmarks.map(mirrorLandmark);
+      const confidenceData = landmarks.map((lm) => landmarkConfidence(lm, score));
+
+      // Hands-only labels assume a mirrored (selfie) image, so they're swapped here
+      if (handedness.label === 'Right') {
+        leftHand = landmarkData;
+        leftConfidence = confidenceData;
+      } else {
+        rightHand = landmarkData;
+        rightConfidence = confidenceData;
+      }
+    });
+  }
+
+  const frame: TrackedFrame = { leftHand, rightHand, leftConfidence, rightConfidence, leftArm, rightArm };
+  // Only attach the optional tracks when kept, so hands-only recordings stay as they were
+  if (pose) Object.assign(frame, { pose, poseConfidence });
+  if (face) frame.face = face;
+  return frame;
+};
@@ -0,0 +1,205 @@
+import { ArmLandmarks, HandFrame, isHandVisible } from '@/types/hand-data';
+
+// Coordinate normalisation for exports and for comparing recordings. Raw
+// landmarks are 0–1 image coordinates, so they depend on where the signer stood
+// and how large they appear. Every mode maps points through one similarity
+// transform per frame and body part,
+//
+//   p' = scale · R · (p − origin)      inverse: p = Rᵀ · p' / scale + origin
+//
+// and returns those transforms alongside the frames so the result can be mapped
+// back. Untracked hands stay zeros.
+
+type Point = [number, number, number];
+
+export type NormalizationMode = 'none' | 'wrist' | 'shoulder' | 'torso' | 'palm';
+
+export const NORMALIZATION_MODES: { id: NormalizationMode; name: string; description: string }[] = [
+  { id: 'none', name: 'Image coordinates', description: 'Raw 0–1 image space' },
+  { id: 'wrist', name: 'Wrist-centred', description: 'Each hand relative to its own wrist; body unchanged' },
+  { id: 'shoulder', name: 'Shoulder width', description: 'Centred between the shoulders, 1 = shoulder width' },
+  {
+    id: 'torso',
+    name: 'Torso frame',
+    description: 'Shoulder width scale, rotated so the shoulders lie along x and the torso along y',
+  },
+  {
+    id: 'palm',
+    name: 'Canonical palm',
+    description: 'Each hand at its wrist, rotated so the palm faces one way, 1 = palm length',
+  },
+];
+
+// Row-major 3×3 rotation
+export type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+export interface SimilarityTransform {
+  origin: Point;
+  rotation: Matrix3;
+  scale: number;
+}
+
+// Transforms used for one frame: `body` covers arms, pose and face
+export interface FrameTransforms {
+  body: SimilarityTransform;
+  leftHand: SimilarityTransform;
+  rightHand: SimilarityTransform;
+}
+
+export interface NormalizedRecording {
+  mode: NormalizationMode;
+  frames: HandFrame[];
+  transforms: FrameTransforms[];
+}
+
+const IDENTITY: Matrix3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+export const IDENTITY_TRANSFORM: SimilarityTransform = { origin: [0, 0, 0], rotation: IDENTITY, scale: 1 };
+
+// BlazePose indices, for frames with a full pose track
+const POSE = { leftShoulder: 11, rightShoulder: 12, leftHip: 23, rightHip: 24 };
+
+const sub = (a: Point, b: Point): Point => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const mid = (a: Point, b: Point): Point => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2];
+const dot = (a: Point, b: Point) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const length = (a: Point) => Math.sqrt(dot(a, a));
+const cross = (a: Point, b: Point): Point => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const scaled = (a: Point, s: number): Point => [a[0] * s, a[1] * s, a[2] * s];
+const isTracked = (p: Point | undefined): p is Point => !!p && (p[0] !== 0 || p[1] !== 0);
+
+// Rotation whose rows are the x axis and the part of `yHint` orthogonal to it;
+// null when the two are (nearly) parallel
+const basisFrom = (x: Point, yHint: Point): Matrix3 | null => {
+  const xLength = length(x);
+  if (xLength < 1e-9) return null;
+  const ex = scaled(x, 1 / xLength);
+  const y = sub(yHint, scaled(ex, dot(yHint, ex)));
+  const yLength = length(y);
+  if (yLength < 1e-9) return null;
+  const ey = scaled(y, 1 / yLength);
+  const ez = cross(ex, ey);
+  return [...ex, ...ey, ...ez] as Matrix3;
+};
+
+export const applyTransform = ({ origin, rotation: r, scale }: SimilarityTransform, p: Point): Point => {
+  const d = sub(p, origin);
+  return [
+    scale * (r[0] * d[0] + r[1] * d[1] + r[2] * d[2]),
+    scale * (r[3] * d[0] + r[4] * d[1] + r[5] * d[2]),
+    scale * (r[6] * d[0] + r[7] * d[1] + r[8] * d[2]),
+  ];
+};
+
+export const invertTransform = ({ origin, rotation: r, scale }: SimilarityTransform, p: Point): Point => [
+  (r[0] * p[0] + r[3] * p[1] + r[6] * p[2]) / scale + origin[0],
+  (r[1] * p[0] + r[4] * p[1] + r[7] * p[2]) / scale + origin[1],
+  (r[2] * p[0] + r[5] * p[1] + r[8] * p[2]) / scale + origin[2],
+];
+
+// Shoulders from the arm tracks, else from the pose track. `left` is the signer's left.
+const shouldersOf = (frame: HandFrame): { left: Point; right: Point } | null => {
+  const fromArms = (l?: ArmLandmarks, r?: ArmLandmarks) =>
+    l && r && isTracked(l.shoulder) && isTracked(r.shoulder) ? { left: l.shoulder, right: r.shoulder } : null;
+  const arms = fromArms(frame.leftArm, frame.rightArm);
+  if (arms) return arms;
+  const pose = frame.pose;
+  if (pose && isTracked(pose[POSE.leftShoulder]) && isTracked(pose[POSE.rightShoulder])) {
+    return { left: pose[POSE.leftShoulder], right: pose[POSE.rightShoulder] };
+  }
+  return null;
+};
+
+export const hasShoulders = (frames: HandFrame[]): boolean => frames.some((f) => shouldersOf(f) !== null);
+
+// Shoulder midpoint and width, plus (torso mode) axes from the shoulder line and
+// the hips when the pose track has them, else image "down"
+const bodyTransform = (frame: HandFrame, withRotation: boolean): SimilarityTransform | null => {
+  const shoulders = shouldersOf(frame);
+  if (!shoulders) return null;
+  const width = length(sub(shoulders.left, shoulders.right));
+  if (width < 1e-9) return null;
+  const origin = mid(shoulders.left, shoulders.right);
+  if (!withRotation) return { origin, rotation: IDENTITY, scale: 1 / width };
+
+  // Mirrored image: the signer's right shoulder is on the +x side
+  const across = sub(shoulders.right, shoulders.left);
+  const hips = frame.pose && [frame.pose[POSE.leftHip], frame.pose[POSE.rightHip]];
+  const down: Point = hips && isTracked(hips[0]) && isTracked(hips[1]) ? sub(mid(hips[0], hips[1]), origin) : [0, 1, 0];
+  const rotation = basisFrom(across, down) ?? basisFrom(across, [0, 1, 0]);
+  return rotation ? { origin, rotation, scale: 1 / width } : null;
+};
+
+// Wrist origin; with `canonical`, y runs wrist → middle knuckle, x roughly pinky →
+// index knuckle (so z is the palm normal) and 1 is the wrist–middle knuckle length
+const handTransform = (hand: Point[], canonical: boolean): SimilarityTransform => {
+  const wrist = hand[0];
+  if (!canonical) return { origin: wrist, rotation: IDENTITY, scale: 1 };
+  const along = sub(hand[9], wrist);
+  // Built with the finger direction first, then reordered so it becomes y
+  const basis = basisFrom(along, sub(hand[5], hand[17]));
+  if (!basis) return { origin: wrist, rotation: IDENTITY, scale: 1 };
+  const ey: Point = [basis[0], basis[1], basis[2]];
+  const ex: Point = [basis[3], basis[4], basis[5]];
+  return { origin: wrist, rotation: [...ex, ...ey, ...cross(ex, ey)] as Matrix3, scale: 1 / length(along) };
+};
+
+// Frames without shoulders borrow the transform of the nearest frame that has them
+const fillMissing = (transforms: (SimilarityTransform | null)[]): SimilarityTransform[] => {
+  const known = transforms.flatMap((t, i) => (t ? [i] : []));
+  if (known.length === 0) return transforms.map(() => IDENTITY_TRANSFORM);
+  let k = 0;
+  return transforms.map((t, i) => {
+    if (t) return t;
+    while (k < known.length - 1 && Math.abs(known[k + 1] - i) <= Math.abs(known[k] - i)) k++;
+    return transforms[known[k]] as SimilarityTransform;
+  });
+};
+
+const transformsFor = (frames: HandFrame[], mode: NormalizationMode): FrameTransforms[] => {
+  if (mode === 'shoulder' || mode === 'torso') {
+    const body = fillMissing(frames.map((f) => bodyTransform(f, mode === 'torso')));
+    return body.map((t) => ({ body: t, leftHand: t, rightHand: t }));
+  }
+  return frames.map((frame) => {
+    const hand = (points: Point[], confidence?: number[]) =>
+      mode !== 'none' && isHandVisible(points, confidence) ? handTransform(points, mode === 'palm') : IDENTITY_TRANSFORM;
+    return {
+      body: IDENTITY_TRANSFORM,
+      leftHand: hand(frame.leftHand, frame.leftConfidence),
+      rightHand: hand(frame.rightHand, frame.rightConfidence),
+    };
+  });
+};
+
+// Map every tracked point of a frame; `map` gets the transform for the point's body part
+const mapFrame = (
+  frame: HandFrame,
+  transforms: FrameTransforms,
+  map: (t: SimilarityTransform, p: Point) => Point
+): HandFrame => {
+  const points = (t: SimilarityTransform, track: Point[]) => track.map((p) => map(t, p));
+  const hand = (t: SimilarityTransform, track: Point[], confidence?: number[]) =>
+    isHandVisible(track, confidence) ? points(t, track) : track;
+  const arm = (a?: ArmLandmarks) =>
+    a && { ...a, shoulder: map(transforms.body, a.shoulder), elbow: map(transforms.body, a.elbow), wrist: map(transforms.body, a.wrist) };
+  return {
+    ...frame,
+    leftHand: hand(transforms.leftHand, frame.leftHand, frame.leftConfidence),
+    rightHand: hand(transforms.rightHand, frame.rightHand, frame.rightConfidence),
+    leftArm: arm(frame.leftArm),
+    rightArm: arm(frame.rightArm),
+    pose: frame.pose && points(transforms.body, frame.pose),
+    face: frame.face && points(transforms.body, frame.face),
+  };
+};
+
+export const normalizeFrames = (frames: HandFrame[], mode: NormalizationMode): NormalizedRecording => {
+  if (mode === 'none') {
+    return { mode, frames, transforms: frames.map(() => ({ body: IDENTITY_TRANSFORM, leftHand: IDENTITY_TRANSFORM, rightHand: IDENTITY_TRANSFORM })) };
+  }
+  const transforms = transformsFor(frames, mode);
+  return { mode, frames: frames.map((frame, i) => mapFrame(frame, transforms[i], applyTransform)), transforms };
+};
+
+// Back to image coordinates using the transforms recorded by normalizeFrames
+export const denormalizeFrames = ({ frames, transforms }: NormalizedRecording): HandFrame[] =>
+  frames.map((frame, i) => mapFrame(frame, transforms[i], invertTransform));
@@ -0,0 +1,101 @@
+import { ArmLandmarks, HandFrame, averageFrameInterval, frameTimes, hasTimestamps, isHandVisible } from '@/types/hand-data';
+
+// Resampling to a fixed frame rate, e.g. variable-rate webcam captures to the
+// 30 fps a classifier expects. Each output frame is blended from the two source
+// frames around its time; a track missing from either of them is taken from the
+// nearer frame instead, so lost hands never get blended with zeros.
+
+type Point = [number, number, number];
+
+export const COMMON_FRAME_RATES = [24, 25, 30, 50, 60];
+
+// Native rate of a recording: measured from timestamps, else the rate recorded at capture
+export const estimateFrameRate = (frames: HandFrame[], fallback?: number): number | null => {
+  const interval = averageFrameInterval(frames);
+  if (interval) return 1000 / interval;
+  return fallback ?? null;
+};
+
+// Output frame count for a recording resampled to `targetFps`
+export const resampledLength = (frames: HandFrame[], targetFps: number, sourceFps: number): number => {
+  if (frames.length < 2) return frames.length;
+  const times = frameTimes(frames, sourceFps);
+  return Math.floor((times[times.length - 1] - times[0]) * targetFps + 1e-6) + 1;
+};
+
+const lerpPoint = (a: Point, b: Point, u: number): Point => [
+  a[0] + (b[0] - a[0]) * u,
+  a[1] + (b[1] - a[1]) * u,
+  a[2] + (b[2] - a[2]) * u,
+];
+
+const lerpPoints = (a: Point[], b: Point[], u: number) => a.map((p, i) => lerpPoint(p, b[i], u));
+
+const lerpValues = (a: number[] | undefined, b: number[] | undefined, u: number) =>
+  a && b ? a.map((v, i) => v + ((b[i] ?? v) - v) * u) : undefined;
+
+const lerpArm = (a: ArmLandmarks, b: ArmLandmarks, u: number): ArmLandmarks => ({
+  shoulder: lerpPoint(a.shoulder, b.shoulder, u),
+  elbow: lerpPoint(a.elbow, b.elbow, u),
+  wrist: lerpPoint(a.wrist, b.wrist, u),
+  confidence: lerpValues(a.confidence, b.confidence, u) as ArmLandmarks['confidence'],
+});
+
+// Blend of frames a and b at u (0 … 1); labels and flags come from the nearer frame
+const blendFrames = (a: HandFrame, b: HandFrame, u: number): HandFrame => {
+  const near = u < 0.5 ? a : b;
+  const hand = (side: 'left' | 'right') => {
+    const [handKey, confidenceKey] = side === 'left'
+      ? (['leftHand', 'leftConfidence'] as const)
+      : (['rightHand', 'rightConfidence'] as const);
+    const both = isHandVisible(a[handKey], a[confidenceKey]) && isHandVisible(b[handKey], b[confidenceKey]);
+    return both
+      ? { points: lerpPoints(a[handKey], b[handKey], u), confidence: lerpValues(a[confidenceKey], b[confidenceKey], u) }
+      : { points: near[handKey], confidence: near[confidenceKey] };
+  };
+  const left = hand('left');
+  const right = hand('right');
+  const arm = (x?: ArmLandmarks, y?: ArmLandmarks, nearest?: ArmLandmarks) => (x && y ? lerpArm(x, y, u) : nearest);
+  const track = (x?: Point[], y?: Point[], nearest?: Point[]) =>
+    x && y && x.length === y.length ? lerpPoints(x, y, u) : nearest;
+
+  return {
+    label: near.label,
+    leftHand: left.points,
+    rightHand: right.points,
+    leftConfidence: left.confidence,
+    rightConfidence: right.confidence,
+    leftArm: arm(a.leftArm, b.leftArm, near.leftArm),
+    rightArm: arm(a.rightArm, b.rightArm, near.rightArm),
+    pose: track(a.pose, b.pose, near.pose),
+    poseConfidence: a.pose && b.pose ? lerpValues(a.poseConfidence, b.poseConfidence, u) : near.poseConfidence,
+    face: track(a.face, b.face, near.face),
+    leftInterpolated: near.leftInterpolated,
+    rightInterpolated: near.rightInterpolated,
+  };
+};
+
+// The recording at `targetFps`. Source frames are placed by their timestamps, or
+// `sourceFps` apart when there are none; output timestamps (when the source has
+// them) start at the source's first timestamp.
+export const resampleFrames = (frames: HandFrame[], targetFps: number, sourceFps: number): HandFrame[] => {
+  if (frames.length < 2 || !(targetFps > 0)) return frames;
+
+  const times = frameTimes(frames, sourceFps);
+  const count = resampledLength(frames, targetFps, sourceFps);
+  const withTimestamps = hasTimestamps(frames);
+  const firstStamp = frames[0].t ?? 0;
+  const out: HandFrame[] = [];
+
+  let segment = 0;
+  for (let k = 0; k < count; k++) {
+    const time = times[0] + k / targetFps;
+    while (segment < frames.length - 2 && times[segment + 1] <= time) segment++;
+    const span = times[segment + 1] - times[segment];
+    const u = Math.min(1, Math.max(0, (time - times[segment]) / span));
+    const frame = blendFrames(frames[segment], frames[segment + 1], u);
+    if (withTimestamps) frame.t = firstStamp + (k * 1000) / targetFps;
+    out.push(frame);
+  }
+  return out;
+};
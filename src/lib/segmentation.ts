@@ -0,0 +1,148 @@
+import { HandFrame, frameTimes, isHandVisible } from '@/types/hand-data';
+import { FrameRange, analyzeMotion } from '@/lib/trim';
+
+// Segmentation of a continuous take (a whole sentence) into candidate signs.
+// Long pauses, where both wrists are still or out of the signing space, always
+// separate signs. Inside a stretch of signing, a cut goes where the wrist speed
+// dips well below the movement either side (signs are joined by a slowdown),
+// provided the handshape changes there or the dip is deep enough on its own.
+
+export type SegmentCue = 'pause' | 'handshape' | 'velocity';
+
+// A candidate sign; `cue` is what separated it from the one before
+export interface SignSegment extends FrameRange {
+  cue: SegmentCue;
+}
+
+export interface SegmentationOptions {
+  pauseSpeed: number; // Wrist speed (shoulder widths per second) below which the hands are pausing
+  minPause: number; // Seconds a pause must last to separate signs
+  handshapeChange: number; // Change in the handshape descriptor that marks a new sign
+  minSegment: number; // Shortest sign, seconds
+}
+
+export const DEFAULT_SEGMENTATION: SegmentationOptions = {
+  pauseSpeed: 0.3,
+  minPause: 0.25,
+  handshapeChange: 0.3,
+  minSegment: 0.3,
+};
+
+// A velocity minimum counts as a dip when it is this far below the slower peak around it
+const DIP_DEPTH = 0.5;
+// ...and is a cut on its own, without a handshape change, when it is this deep
+const DEEP_DIP = 0.85;
+// How far either side (seconds) peaks are looked for and handshapes are compared
+const DIP_WINDOW = 0.4;
+const SHAPE_WINDOW = 0.1;
+
+const FINGERTIPS = [4, 8, 12, 16, 20];
+
+// Fingertip-to-wrist distances in palm lengths: changes with the handshape but not
+// with where the hand is or how it is turned
+const handshape = (hand: [number, number, number][], confidence?: number[]): number[] | null => {
+  if (!isHandVisible(hand, confidence)) return null;
+  const [wrist, middleKnuckle] = [hand[0], hand[9]];
+  const palm = Math.hypot(middleKnuckle[0] - wrist[0], middleKnuckle[1] - wrist[1], middleKnuckle[2] - wrist[2]);
+  if (palm < 1e-6) return null;
+  return FINGERTIPS.map((tip) =>
+    Math.hypot(hand[tip][0] - wrist[0], hand[tip][1] - wrist[1], hand[tip][2] - wrist[2]) / palm
+  );
+};
+
+const shapeDistance = (a: number[] | null, b: number[] | null) =>
+  a && b ? Math.sqrt(a.reduce((sum, v, i) => sum + (v - b[i]) ** 2, 0) / a.length) : 0;
+
+// Handshape change around each frame: descriptors `radius` frames either side compared, either hand
+export const handshapeChange = (frames: HandFrame[], radius: number): number[] => {
+  const left = frames.map((f) => handshape(f.leftHand, f.leftConfidence));
+  const right = frames.map((f) => handshape(f.rightHand, f.rightConfidence));
+  return frames.map((_, i) => {
+    const a = Math.max(0, i - radius);
+    const b = Math.min(frames.length - 1, i + radius);
+    return Math.max(shapeDistance(left[a], left[b]), shapeDistance(right[a], right[b]));
+  });
+};
+
+// Cuts inside one stretch of signing, best candidates first, kept `minLength` frames apart
+const splitRun = (
+  run: FrameRange,
+  energy: number[],
+  shape: number[],
+  window: number,
+  minLength: number,
+  { handshapeChange: shapeThreshold }: SegmentationOptions
+): { frame: number; cue: SegmentCue }[] => {
+  const candidates: { frame: number; cue: SegmentCue; score: number }[] = [];
+  for (let i = run.start + minLength; i <= run.end - minLength; i++) {
+    if (!(energy[i] <= energy[i - 1] && energy[i] < energy[i + 1])) continue;
+    const before = Math.max(...energy.slice(Math.max(run.start, i - window), i));
+    const after = Math.max(...energy.slice(i + 1, Math.min(run.end, i + window + 1)));
+    const peak = Math.min(before, after);
+    if (!(peak > 0)) continue;
+    const dip = 1 - energy[i] / peak;
+    if (dip < DIP_DEPTH) continue;
+    const shapeCue = shape[i] >= shapeThreshold;
+    if (!shapeCue && dip < DEEP_DIP) continue;
+    candidates.push({ frame: i, cue: shapeCue ? 'handshape' : 'velocity', score: dip + shape[i] });
+  }
+
+  const cuts: { frame: number; cue: SegmentCue }[] = [];
+  for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+    if (cuts.every((cut) => Math.abs(cut.frame - candidate.frame) >= minLength)) cuts.push(candidate);
+  }
+  return cuts.sort((a, b) => a.frame - b.frame);
+};
+
+// Candidate signs in frame order. Pauses between them belong to no segment.
+// `fps` spaces frames for recordings without timestamps.
+export const segmentSigns = (
+  frames: HandFrame[],
+  fps: number,
+  options: SegmentationOptions = DEFAULT_SEGMENTATION
+): SignSegment[] => {
+  if (frames.length < 2) return [];
+  const times = frameTimes(frames, fps);
+  const step = (times[times.length - 1] - times[0]) / (frames.length - 1) || 1 / fps;
+  const frameCount = (seconds: number) => Math.max(1, Math.round(seconds / step));
+
+  const { energy, inSigningSpace } = analyzeMotion(frames, fps);
+  const shape = handshapeChange(frames, frameCount(SHAPE_WINDOW));
+  const paused = energy.map((e, i) => e < options.pauseSpeed || !inSigningSpace[i]);
+
+  // Stretches of signing: everything between pauses of at least minPause; shorter
+  // pauses are holds inside a sign
+  const runs: FrameRange[] = [];
+  let runStart = -1;
+  for (let i = 0; i < frames.length; ) {
+    if (!paused[i]) {
+      if (runStart < 0) runStart = i;
+      i++;
+      continue;
+    }
+    let pauseEnd = i;
+    while (pauseEnd < frames.length && paused[pauseEnd]) pauseEnd++;
+    if (runStart >= 0 && (pauseEnd === frames.length || times[pauseEnd - 1] - times[i] >= options.minPause)) {
+      runs.push({ start: runStart, end: i });
+      runStart = -1;
+    }
+    i = pauseEnd;
+  }
+  if (runStart >= 0) runs.push({ start: runStart, end: frames.length });
+
+  const minLength = frameCount(options.minSegment);
+  const segments: SignSegment[] = [];
+  for (const run of runs) {
+    if (run.end - run.start < minLength) continue;
+    const cuts = splitRun(run, energy, shape, frameCount(DIP_WINDOW), minLength, options);
+    let start = run.start;
+    let cue: SegmentCue = 'pause';
+    for (const cut of cuts) {
+      segments.push({ start, end: cut.frame, cue });
+      start = cut.frame;
+      cue = cut.cue;
+    }
+    segments.push({ start, end: run.end, cue });
+  }
+  return segments;
+};
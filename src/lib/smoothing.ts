@@ -0,0 +1,317 @@
+import { HandFrame, frameTimes, isHandVisible, isLandmarkConfident } from '@/types/hand-data';
+
+// Jitter filters for recorded sequences. Every landmark is filtered as its own
+// 3D signal over the frames where it was tracked; untracked frames are left as
+// they are and split the signal, so a filter never smears a lost hand's zeros
+// into the frames around it.
+
+type Point = [number, number, number];
+
+export type SmoothingMethod = 'one-euro' | 'savitzky-golay' | 'ema';
+
+// Joints that move differently get their own settings: fingertips jitter the
+// most, wrists and arms carry the big, fast movements that mustn't lag
+export type JointGroup = 'wrists' | 'fingers' | 'fingertips' | 'arms' | 'body';
+
+export const JOINT_GROUPS: { id: JointGroup; name: string }[] = [
+  { id: 'wrists', name: 'Wrists' },
+  { id: 'fingers', name: 'Finger joints' },
+  { id: 'fingertips', name: 'Fingertips' },
+  { id: 'arms', name: 'Arms' },
+  { id: 'body', name: 'Pose & face' },
+];
+
+export type FilterParams = Record<string, number>;
+
+export interface FilterParamSpec {
+  key: string;
+  name: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface SmoothingMethodInfo {
+  id: SmoothingMethod;
+  name: string;
+  description: string;
+  params: FilterParamSpec[];
+  defaults: Record<JointGroup, FilterParams>;
+}
+
+export const SMOOTHING_METHODS: SmoothingMethodInfo[] = [
+  {
+    id: 'one-euro',
+    name: 'One-Euro',
+    description: 'Adaptive low-pass: heavy smoothing when still, little lag when moving fast',
+    params: [
+      { key: 'minCutoff', name: 'Min cutoff (Hz)', min: 0.05, max: 10, step: 0.05 },
+      { key: 'beta', name: 'Speed coefficient', min: 0, max: 20, step: 0.1 },
+      { key: 'dCutoff', name: 'Speed cutoff (Hz)', min: 0.1, max: 10, step: 0.1 },
+    ],
+    defaults: {
+      wrists: { minCutoff: 1.5, beta: 1, dCutoff: 1 },
+      fingers: { minCutoff: 1, beta: 1.5, dCutoff: 1 },
+      fingertips: { minCutoff: 0.7, beta: 2, dCutoff: 1 },
+      arms: { minCutoff: 1, beta: 0.5, dCutoff: 1 },
+      body: { minCutoff: 1, beta: 0.3, dCutoff: 1 },
+    },
+  },
+  {
+    id: 'savitzky-golay',
+    name: 'Savitzky–Golay',
+    description: 'Local polynomial fit over a window of frames; keeps peaks, looks ahead as well as back',
+    params: [
+      { key: 'window', name: 'Window (frames)', min: 3, max: 31, step: 2 },
+      { key: 'order', name: 'Polynomial order', min: 1, max: 5, step: 1 },
+    ],
+    defaults: {
+      wrists: { window: 5, order: 2 },
+      fingers: { window: 7, order: 2 },
+      fingertips: { window: 9, order: 2 },
+      arms: { window: 7, order: 2 },
+      body: { window: 9, order: 2 },
+    },
+  },
+  {
+    id: 'ema',
+    name: 'Moving average',
+    description: 'Exponential moving average; simple, but lags behind fast movements',
+    params: [{ key: 'alpha', name: 'Alpha (1 = off)', min: 0.05, max: 1, step: 0.05 }],
+    defaults: {
+      wrists: { alpha: 0.6 },
+      fingers: { alpha: 0.5 },
+      fingertips: { alpha: 0.4 },
+      arms: { alpha: 0.5 },
+      body: { alpha: 0.4 },
+    },
+  },
+];
+
+export const getSmoothingMethod = (id: SmoothingMethod): SmoothingMethodInfo =>
+  SMOOTHING_METHODS.find((method) => method.id === id) ?? SMOOTHING_METHODS[0];
+
+export interface GroupSmoothing {
+  enabled: boolean;
+  params: FilterParams;
+}
+
+export interface SmoothingSettings {
+  method: SmoothingMethod;
+  groups: Record<JointGroup, GroupSmoothing>;
+}
+
+export const defaultSmoothingSettings = (method: SmoothingMethod = 'one-euro'): SmoothingSettings => {
+  const { defaults } = getSmoothingMethod(method);
+  const groups = {} as Record<JointGroup, GroupSmoothing>;
+  for (const { id } of JOINT_GROUPS) {
+    groups[id] = { enabled: true, params: { ...defaults[id] } };
+  }
+  return { method, groups };
+};
+
+// Signals are filtered over runs of consecutive frames; `times` are in seconds
+type SignalFilter = (points: Point[], times: number[], params: FilterParams) => Point[];
+
+// One-Euro filter (Casiez et al. 2012). The cutoff rises with the speed, here the
+// length of the 3D velocity so all axes of a landmark are smoothed alike.
+const oneEuro: SignalFilter = (points, times, { minCutoff, beta, dCutoff }) => {
+  const alpha = (cutoff: number, dt: number) => 1 / (1 + 1 / (2 * Math.PI * cutoff * dt));
+  const out: Point[] = [[...points[0]]];
+  let speed = 0;
+  for (let i = 1; i < points.length; i++) {
+    const dt = times[i] - times[i - 1];
+    const previous = out[i - 1];
+    const velocity = Math.hypot(...points[i].map((v, axis) => (v - previous[axis]) / dt));
+    speed += alpha(dCutoff, dt) * (velocity - speed);
+    const a = alpha(minCutoff + beta * speed, dt);
+    out.push(points[i].map((v, axis) => previous[axis] + a * (v - previous[axis])) as Point);
+  }
+  return out;
+};
+
+const ema: SignalFilter = (points, _times, { alpha }) => {
+  const out: Point[] = [[...points[0]]];
+  for (let i = 1; i < points.length; i++) {
+    out.push(points[i].map((v, axis) => out[i - 1][axis] + alpha * (v - out[i - 1][axis])) as Point);
+  }
+  return out;
+};
+
+// Least-squares weights for the value at offset `at` (-half … half) of a
+// polynomial fitted to 2·half+1 evenly spaced samples
+const weightCache = new Map<string, number[]>();
+const savitzkyGolayWeights = (half: number, order: number, at: number): number[] => {
+  const key = `${half}:${order}:${at}`;
+  const cached = weightCache.get(key);
+  if (cached) return cached;
+
+  const size = order + 1;
+  const offsets = Array.from({ length: 2 * half + 1 }, (_, k) => k - half);
+  // Normal equations (AᵀA)u = v with A[k][j] = offset_k^j and v_j = at^j
+  const system = Array.from({ length: size }, (_, row) => [
+    ...Array.from({ length: size }, (_, col) => offsets.reduce((sum, x) => sum + x ** (row + col), 0)),
+    at ** row,
+  ]);
+  for (let col = 0; col < size; col++) {
+    const pivot = system.slice(col).reduce((best, r, i) => (Math.abs(r[col]) > Math.abs(system[best][col]) ? col + i : best), col);
+    [system[col], system[pivot]] = [system[pivot], system[col]];
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue;
+      const factor = system[row][col] / system[col][col];
+      for (let k = col; k <= size; k++) system[row][k] -= factor * system[col][k];
+    }
+  }
+  const u = system.map((row, i) => row[size] / row[i]);
+  const weights = offsets.map((x) => u.reduce((sum, uj, j) => sum + uj * x ** j, 0));
+  weightCache.set(key, weights);
+  return weights;
+};
+
+// Assumes roughly even frame spacing, which holds for live captures. Near the
+// ends the same window is used and the fit evaluated off-centre.
+const savitzkyGolay: SignalFilter = (points, _times, params) => {
+  const length = points.length;
+  let window = Math.min(Math.round(params.window), length);
+  if (window % 2 === 0) window--;
+  const order = Math.min(Math.round(params.order), window - 1);
+  if (window < 3 || order < 1) return points.map((p) => [...p] as Point);
+
+  const half = (window - 1) / 2;
+  return points.map((_, i) => {
+    const start = Math.min(Math.max(0, i - half), length - window);
+    const weights = savitzkyGolayWeights(half, order, i - start - half);
+    const out: Point = [0, 0, 0];
+    weights.forEach((w, k) => {
+      for (let axis = 0; axis < 3; axis++) out[axis] += w * points[start + k][axis];
+    });
+    return out;
+  });
+};
+
+const FILTERS: Record<SmoothingMethod, SignalFilter> = {
+  'one-euro': oneEuro,
+  'savitzky-golay': savitzkyGolay,
+  ema,
+};
+
+// One filtered landmark: reads its point from a frame, or undefined where untracked
+interface Channel {
+  group: JointGroup;
+  get: (frame: HandFrame) => Point | undefined;
+}
+
+const FINGERTIPS = [4, 8, 12, 16, 20];
+const ARM_JOINTS = ['shoulder', 'elbow', 'wrist'] as const;
+
+const handGroup = (index: number): JointGroup =>
+  index === 0 ? 'wrists' : FINGERTIPS.includes(index) ? 'fingertips' : 'fingers';
+
+const isTrackedPoint = (p: Point | undefined): p is Point => !!p && (p[0] !== 0 || p[1] !== 0);
+
+const channelsFor = (frames: HandFrame[]): Channel[] => {
+  const channels: Channel[] = [];
+  for (const side of ['left', 'right'] as const) {
+    const hand = side === 'left' ? 'leftHand' : 'rightHand';
+    const confidence = side === 'left' ? 'leftConfidence' : 'rightConfidence';
+    for (let i = 0; i < 21; i++) {
+      channels.push({
+        group: handGroup(i),
+        get: (frame) =>
+          isHandVisible(frame[hand], frame[confidence]) && isLandmarkConfident(frame[confidence], i)
+            ? frame[hand][i]
+            : undefined,
+      });
+    }
+    const arm = side === 'left' ? 'leftArm' : 'rightArm';
+    for (const joint of ARM_JOINTS) {
+      channels.push({ group: 'arms', get: (frame) => frame[arm]?.[joint] });
+    }
+  }
+
+  // Body tracks keep one layout for a whole recording; frames with another size are skipped
+  const poseSize = frames.find((f) => f.pose)?.pose?.length ?? 0;
+  const faceSize = frames.find((f) => f.face)?.face?.length ?? 0;
+  for (let i = 0; i < poseSize; i++) {
+    channels.push({ group: 'body', get: (frame) => (frame.pose?.length === poseSize ? frame.pose[i] : undefined) });
+  }
+  for (let i = 0; i < faceSize; i++) {
+    channels.push({ group: 'body', get: (frame) => (frame.face?.length === faceSize ? frame.face[i] : undefined) });
+  }
+  return channels;
+};
+
+// Copy of a frame whose points can be overwritten without touching the original
+const cloneFrame = (frame: HandFrame): HandFrame => {
+  const points = (track: Point[]) => track.map((p) => [...p] as Point);
+  const arm = (a: HandFrame['leftArm']) =>
+    a && { ...a, shoulder: [...a.shoulder] as Point, elbow: [...a.elbow] as Point, wrist: [...a.wrist] as Point };
+  return {
+    ...frame,
+    leftHand: points(frame.leftHand),
+    rightHand: points(frame.rightHand),
+    leftArm: arm(frame.leftArm),
+    rightArm: arm(frame.rightArm),
+    pose: frame.pose && points(frame.pose),
+    face: frame.face && points(frame.face),
+  };
+};
+
+// Parameters limited to the ranges the method supports, defaults for missing ones
+const clampParams = (method: SmoothingMethodInfo, group: JointGroup, params: FilterParams): FilterParams => {
+  const clamped: FilterParams = {};
+  for (const { key, min, max } of method.params) {
+    const value = params[key] ?? method.defaults[group][key];
+    clamped[key] = Math.min(max, Math.max(min, value));
+  }
+  return clamped;
+};
+
+// Smoothed copy of the recording; labels, timestamps and confidences are kept
+export const smoothFrames = (frames: HandFrame[], settings: SmoothingSettings, fps: number): HandFrame[] => {
+  const method = getSmoothingMethod(settings.method);
+  const filter = FILTERS[method.id];
+  const times = frameTimes(frames, fps);
+  const out = frames.map(cloneFrame);
+
+  for (const channel of channelsFor(frames)) {
+    const { enabled } = settings.groups[channel.group];
+    if (!enabled) continue;
+    const params = clampParams(method, channel.group, settings.groups[channel.group].params);
+
+    let run: number[] = [];
+    const flush = () => {
+      if (run.length > 1) {
+        const filtered = filter(run.map((i) => channel.get(frames[i]) as Point), run.map((i) => times[i]), params);
+        // Written through the clone's own point, found the same way as in the source
+        run.forEach((frameIndex, k) => channel.get(out[frameIndex])!.splice(0, 3, ...filtered[k]));
+      }
+      run = [];
+    };
+    frames.forEach((frame, i) => {
+      if (isTrackedPoint(channel.get(frame))) {
+        run.push(i);
+      } else {
+        flush();
+      }
+    });
+    flush();
+  }
+  return out;
+};
+
+// Mean frame-to-frame acceleration of the tracked hand landmarks (image units per
+// frame²): a rough jitter measure for comparing a recording before and after smoothing
+export const measureJitter = (frames: HandFrame[]): number | null => {
+  let total = 0;
+  let count = 0;
+  for (const channel of channelsFor(frames).filter((c) => c.group !== 'arms' && c.group !== 'body')) {
+    for (let i = 2; i < frames.length; i++) {
+      const [a, b, c] = [channel.get(frames[i - 2]), channel.get(frames[i - 1]), channel.get(frames[i])];
+      if (!isTrackedPoint(a) || !isTrackedPoint(b) || !isTrackedPoint(c)) continue;
+      total += Math.hypot(c[0] - 2 * b[0] + a[0], c[1] - 2 * b[1] + a[1], c[2] - 2 * b[2] + a[2]);
+      count++;
+    }
+  }
+  return count > 0 ? total / count : null;
+};
@@ -0,0 +1,161 @@
+import { HandFrame, frameTimes, isArmTracked, isHandVisible } from '@/types/hand-data';
+
+// Sign start/end detection for trimming the idle time a capture always has at
+// each end (hands down while the signer reaches for Record and Stop). A frame
+// is active when a wrist is inside the signing space and moving faster than the
+// sensitivity; the sign runs from the first to the last sustained burst of
+// activity, widened while the motion is still above half the sensitivity.
+
+type Point = [number, number, number];
+type Side = 'left' | 'right';
+
+// A range of frames; `end` is exclusive
+export interface FrameRange {
+  start: number;
+  end: number;
+}
+
+export interface TrimOptions {
+  sensitivity: number; // Wrist speed, in shoulder widths per second, that counts as signing
+  padding: number; // Seconds kept either side of the detected sign
+}
+
+export const DEFAULT_TRIM: TrimOptions = { sensitivity: 0.6, padding: 0.15 };
+
+export interface MotionAnalysis {
+  energy: number[]; // Fastest wrist per frame, shoulder widths per second (smoothed)
+  inSigningSpace: boolean[];
+  bounds: FrameRange | null; // null when no signing was found
+}
+
+// Shoulder width assumed when the recording has no arm or pose tracks, as a
+// fraction of the image width for a signer framed from the waist up
+const FALLBACK_SHOULDER_WIDTH = 0.25;
+// Signing space reaches this many shoulder widths below the shoulders (about the waist)
+const SIGNING_SPACE_DEPTH = 1.5;
+// Hands-only recordings: wrists below this image height are resting
+const FALLBACK_SPACE_BOTTOM = 0.85;
+// Bursts shorter than this (seconds) are tracking glitches, not signing
+const MIN_ACTIVE = 0.1;
+// Moving average applied to the wrist speed (seconds)
+const ENERGY_WINDOW = 0.1;
+
+const POSE_SHOULDERS = [11, 12];
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const shoulderLine = (frame: HandFrame): { y: number; width: number } | null => {
+  let left: Point | undefined;
+  let right: Point | undefined;
+  if (isArmTracked(frame.leftArm) && isArmTracked(frame.rightArm)) {
+    left = frame.leftArm!.shoulder;
+    right = frame.rightArm!.shoulder;
+  } else if (frame.pose) {
+    [left, right] = POSE_SHOULDERS.map((i) => frame.pose![i]);
+  }
+  const tracked = (p?: Point) => !!p && (p[0] !== 0 || p[1] !== 0);
+  if (!tracked(left) || !tracked(right)) return null;
+  const width = Math.hypot(right[0] - left[0], right[1] - left[1]);
+  return width > 1e-6 ? { y: (left[1] + right[1]) / 2, width } : null;
+};
+
+// Wrist from the hand track, else from the arm track when only the arm was seen
+const wristOf = (frame: HandFrame, side: Side): Point | null => {
+  const [hand, confidence, arm] = side === 'left'
+    ? [frame.leftHand, frame.leftConfidence, frame.leftArm]
+    : [frame.rightHand, frame.rightConfidence, frame.rightArm];
+  if (isHandVisible(hand, confidence)) return hand[0];
+  if (arm && isArmTracked(arm) && (arm.confidence?.[2] ?? 1) >= 0.5) return arm.wrist;
+  return null;
+};
+
+const movingAverage = (values: number[], radius: number) =>
+  values.map((_, i) => {
+    const from = Math.max(0, i - radius);
+    const to = Math.min(values.length - 1, i + radius);
+    let sum = 0;
+    for (let j = from; j <= to; j++) sum += values[j];
+    return sum / (to - from + 1);
+  });
+
+// Per-frame motion energy and signing-space test, plus the detected sign.
+// `fps` spaces frames for recordings without timestamps.
+export const analyzeMotion = (
+  frames: HandFrame[],
+  fps: number,
+  { sensitivity, padding }: TrimOptions = DEFAULT_TRIM
+): MotionAnalysis => {
+  const times = frameTimes(frames, fps);
+  const shoulders = frames.map(shoulderLine);
+  const unit = median(shoulders.flatMap((s) => (s ? [s.width] : []))) ?? FALLBACK_SHOULDER_WIDTH;
+
+  const inSigningSpace = frames.map((frame, i) => {
+    // Frames without shoulders use the recording's typical shoulder line, if any
+    const line = shoulders[i] ?? shoulders.find((s) => s !== null);
+    const bottom = line ? line.y + SIGNING_SPACE_DEPTH * line.width : FALLBACK_SPACE_BOTTOM;
+    return (['left', 'right'] as const).some((side) => {
+      const wrist = wristOf(frame, side);
+      return wrist !== null && wrist[1] < bottom;
+    });
+  });
+
+  const speed = frames.map((frame, i) => {
+    if (i === 0) return 0;
+    const dt = times[i] - times[i - 1];
+    if (!(dt > 0)) return 0;
+    return Math.max(
+      0,
+      ...(['left', 'right'] as const).map((side) => {
+        const a = wristOf(frames[i - 1], side);
+        const b = wristOf(frame, side);
+        return a && b ? Math.hypot(b[0] - a[0], b[1] - a[1]) / unit / dt : 0;
+      })
+    );
+  });
+  const step = frames.length > 1 ? (times[times.length - 1] - times[0]) / (frames.length - 1) : 1 / fps;
+  const energy = movingAverage(speed, Math.max(0, Math.round(ENERGY_WINDOW / step / 2)));
+
+  const active = energy.map((e, i) => e >= sensitivity && inSigningSpace[i]);
+  const minRun = Math.max(1, Math.round(MIN_ACTIVE / step));
+  let first = -1;
+  let last = -1;
+  for (let i = 0; i < frames.length; ) {
+    if (!active[i]) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < frames.length && active[j]) j++;
+    if (j - i >= minRun) {
+      if (first < 0) first = i;
+      last = j - 1;
+    }
+    i = j;
+  }
+  if (first < 0) return { energy, inSigningSpace, bounds: null };
+
+  // Widen to where the motion settles, then add the padding
+  const settled = (i: number) => energy[i] < sensitivity / 2 || !inSigningSpace[i];
+  while (first > 0 && !settled(first - 1)) first--;
+  while (last < frames.length - 1 && !settled(last + 1)) last++;
+  let start = first;
+  let end = last + 1;
+  while (start > 0 && times[first] - times[start - 1] <= padding) start--;
+  while (end < frames.length && times[end] - times[last] <= padding) end++;
+  return { energy, inSigningSpace, bounds: { start, end } };
+};
+
+export const detectSignBounds = (frames: HandFrame[], fps: number, options: TrimOptions = DEFAULT_TRIM) =>
+  analyzeMotion(frames, fps, options).bounds;
+
+// The frames in `range`, with timestamps rebased so the first kept frame is at 0
+export const trimFrames = (frames: HandFrame[], { start, end }: FrameRange): HandFrame[] => {
+  const kept = frames.slice(start, end);
+  const offset = kept[0]?.t;
+  if (offset === undefined) return kept;
+  return kept.map((frame) => (frame.t === undefined ? frame : { ...frame, t: frame.t - offset }));
+};
@@ -0,0 +1,32 @@
+import { unzipSync } from 'fflate';
+
+export interface ArchiveEntry {
+  name: string; // Path inside the archive or folder, e.g. "video01/000012_keypoints.json"
+  data: Uint8Array;
+}
+
+export const isZipFile = (fileName: string) => fileName.toLowerCase().endsWith('.zip');
+
+// Read the entries of a .zip, skipping directories and macOS resource forks
+export const readZip = async (file: Blob, accept: (name: string) => boolean = () => true): Promise<ArchiveEntry[]> => {
+  const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+    filter: (info) => !info.name.endsWith('/') && !info.name.includes('__MACOSX/') && accept(info.name),
+  });
+  return Object.entries(entries).map(([name, data]) => ({ name, data }));
+};
+
+// Flatten a selection of files (a picked folder, or .zip archives among them)
+// into entries. Archive entries are named under the archive's file name, so
+// two archives never appear to share a folder.
+export const readFileEntries = async (files: File[], accept: (name: string) => boolean): Promise<ArchiveEntry[]> => {
+  const entries: ArchiveEntry[] = [];
+  for (const file of files) {
+    if (isZipFile(file.name)) {
+      entries.push(...(await readZip(file, accept)).map((entry) => ({ ...entry, name: `${file.name}/${entry.name}` })));
+    } else if (accept(file.name)) {
+      // Folder picks expose the path below the chosen folder as webkitRelativePath
+      entries.push({ name: file.webkitRelativePath || file.name, data: new Uint8Array(await file.arrayBuffer()) });
+    }
+  }
+  return entries;
+};
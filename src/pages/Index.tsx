@@ -1,5 +1,6 @@
-import { useEffect, useState } from 'react';
-import { Hand, User, Layers, Camera, Download, Bone } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Hand, User, Layers, Camera, Bone, Smile } from 'lucide-react';
+import { toast } from 'sonner';
 import HandVisualization from '@/components/HandVisualization';
 import AvatarVisualization from '@/components/AvatarVisualization';
 import FileUpload from '@/components/FileUpload';
@@ -7,35 +8,151 @@ import VideoUpload from '@/components/VideoUpload';
 import VideoPlayer from '@/components/VideoPlayer';
 import CameraCapture from '@/components/CameraCapture';
 import AnimationControls from '@/components/AnimationControls';
+import FrameRangeToolbar from '@/components/FrameRangeToolbar';
+import HistoryPanel from '@/components/HistoryPanel';
 import StatusPanel from '@/components/StatusPanel';
+import ExportMenu from '@/components/ExportMenu';
+import RecordingDetailsDialog from '@/components/RecordingDetailsDialog';
+import CSVImportDialog from '@/components/CSVImportDialog';
+import OpenPoseImportDialog from '@/components/OpenPoseImportDialog';
+import DatasetExportDialog from '@/components/DatasetExportDialog';
+import ProcessMenu, { ProcessingTool } from '@/components/ProcessMenu';
+import SmoothingPanel from '@/components/SmoothingPanel';
+import GapFillPanel from '@/components/GapFillPanel';
+import ResamplePanel from '@/components/ResamplePanel';
+import TrimPanel from '@/components/TrimPanel';
+import SegmentationPanel from '@/components/SegmentationPanel';
+import LabelTrack from '@/components/LabelTrack';
+import LandmarkEditPanel from '@/components/LandmarkEditPanel';
 import { useSignAnimation } from '@/hooks/useSignAnimation';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
+import { CSVValidationReport, isCSVFile, matchesCSVSchema, readCSVHeader } from '@/lib/codecs';
+import { HandFrame } from '@/types/hand-data';
+import { FrameRange } from '@/lib/trim';
+import { LabelRun, applyLabelRuns, getLabelRuns } from '@/lib/label-track';
+import { LandmarkRef, applyLandmarkEdit } from '@/lib/landmark-edit';
 
 const Index = () => {
   const [viewMode, setViewMode] = useState<'hands' | 'avatar'>('avatar');
   const [showCamera, setShowCamera] = useState(false);
   const [showArms, setShowArms] = useState(true);
+  const [showNonManuals, setShowNonManuals] = useState(true);
   const [videoFile, setVideoFile] = useState<{ file: File; url: string } | null>(null);
+  // CSV waiting on the import dialog: for column mapping when its header doesn't
+  // match ours, or for review when the parse worker's report found problems
+  const [csvToCheck, setCsvToCheck] = useState<{
+    file: File;
+    review?: { report: CSVValidationReport; resolve: (accepted: boolean) => void };
+  } | null>(null);
+  const [activeTool, setActiveTool] = useState<ProcessingTool | null>(null);
+  // Processed frames shown in place of the loaded ones while a tool previews its result
+  const [previewFrames, setPreviewFrames] = useState<HandFrame[] | null>(null);
+  // Trim points proposed by the trim tool, marked on the timeline
+  const [trimProposal, setTrimProposal] = useState<FrameRange | null>(null);
+  // Sign segments proposed by the segmentation tool, shown on the label track
+  const [segmentProposal, setSegmentProposal] = useState<LabelRun[] | null>(null);
+  // Landmark editor: picked joints, and how many frames either side an edit blends into
+  const [landmarkSelection, setLandmarkSelection] = useState<LandmarkRef[]>([]);
+  const [editRadius, setEditRadius] = useState(0);
   const {
     frames,
     currentFrame,
     isPlaying,
     isLoading,
+    loadProgress,
+    cancelLoading,
     fileName,
+    metadata,
+    setMetadata,
     loadFile,
     loadFromUrl,
     loadFrames,
+    editFrames,
+    undo,
+    redo,
+    undoLabel,
+    redoLabel,
+    history,
+    historyPosition,
+    historyTruncated,
+    historyBytes,
+    goToHistory,
+    selection,
+    setSelection,
+    clipboardSize,
+    copySelection,
+    cutSelection,
+    pasteFrames,
+    deleteSelection,
+    cropToSelection,
+    duplicateSelection,
+    reverseSelection,
+    stretchSelection,
+    pause,
     togglePlay,
     reset,
     setFrame,
     fps,
     setFps,
-    downloadCSV,
+    playbackMode,
+    canUseTimestamps,
+    setPlaybackMode,
+    playbackSpeed,
+    setPlaybackSpeed,
+    downloadAs,
+    exportAnimation,
   } = useSignAnimation();
 
   const currentFrameData = frames[currentFrame] || null;
+  const displayFrame = previewFrames?.[currentFrame] ?? currentFrameData;
   const label = currentFrameData?.label || 'No Data';
+  const labelRuns = useMemo(() => getLabelRuns(frames), [frames]);
+
+  const handleFileUpload = async (file: File) => {
+    if (!isCSVFile(file.name)) {
+      loadFile(file);
+      return;
+    }
+    let header: string[];
+    try {
+      header = await readCSVHeader(file);
+    } catch (error) {
+      toast.error(`Could not read ${file.name}`, { description: (error as Error).message });
+      return;
+    }
+    if (!matchesCSVSchema(header)) {
+      setCsvToCheck({ file });
+      return;
+    }
+    // Files in our layout are checked by the parse worker as they stream in
+    loadFile(file, {
+      reviewCSV: (report) => new Promise((resolve) => setCsvToCheck({ file, review: { report, resolve } })),
+    });
+  };
+
+  const closeCSVDialog = (accepted = false) => {
+    csvToCheck?.review?.resolve(accepted);
+    setCsvToCheck(null);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) undo and redo edits, except while typing
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if ((e.target as HTMLElement | null)?.closest('input, textarea, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
 
   // Load sample data on mount
   useEffect(() => {
@@ -74,21 +191,39 @@ const Index = () => {
               <Camera className="w-4 h-4" />
               <span className="hidden xs:inline">Capture</span>
             </Button>
-            <Button
-              onClick={downloadCSV}
-              variant="outline"
-              size="sm"
-              className="flex items-center gap-1.5 sm:gap-2 whitespace-nowrap"
+            <ExportMenu
+              onExport={downloadAs}
+              onExportAnimation={exportAnimation}
               disabled={frames.length === 0}
-            >
-              <Download className="w-4 h-4" />
-              <span className="hidden xs:inline">Download</span>
-            </Button>
+            />
+            <ProcessMenu
+              active={activeTool}
+              onSelect={(tool) => {
+                setActiveTool(tool);
+                // Landmarks are picked in the hands view, on a still frame
+                if (tool === 'landmarks') {
+                  setViewMode('hands');
+                  pause();
+                }
+              }}
+              disabled={frames.length === 0}
+            />
+            <DatasetExportDialog
+              current={frames.length > 0 ? { name: fileName || 'recording', recording: { frames, metadata } } : null}
+            />
+            <RecordingDetailsDialog
+              metadata={metadata}
+              onChange={setMetadata}
+              disabled={frames.length === 0}
+            />
             <FileUpload
-              onFileUpload={loadFile}
+              onFileUpload={handleFileUpload}
               hasData={frames.length > 0}
               fileName={fileName || undefined}
             />
+            <OpenPoseImportDialog
+              onImport={(recording, name) => loadFrames(recording.frames, name, recording.metadata)}
+            />
             <VideoUpload
               onVideoUpload={(file, url) => setVideoFile({ file, url })}
               hasVideo={!!videoFile}
@@ -151,6 +286,18 @@ const Index = () => {
               />
             </div>
           )}
+
+          {/* Non-manual markers (head, brows, mouth, gaze) - avatar view only */}
+          {viewMode === 'avatar' && (
+            <div className="glass-panel px-2 sm:px-3 py-1.5 sm:py-2 flex items-center gap-1.5 sm:gap-2">
+              <Smile className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-muted-foreground" />
+              <span className="text-xs sm:text-sm text-muted-foreground">Face</span>
+              <Switch
+                checked={showNonManuals}
+                onCheckedChange={setShowNonManuals}
+              />
+            </div>
+          )}
         </div>
 
         {/* Camera Capture Modal */}
@@ -158,8 +305,8 @@ const Index = () => {
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
             <div className="w-full max-w-2xl">
               <CameraCapture
-                onFramesCaptured={(capturedFrames, label) => {
-                  loadFrames(capturedFrames, `${label}_captured.csv`);
+                onFramesCaptured={(capturedFrames, label, captureMetadata) => {
+                  loadFrames(capturedFrames, `${label}_captured.csv`, captureMetadata);
                 }}
                 onClose={() => setShowCamera(false)}
               />
@@ -167,6 +314,18 @@ const Index = () => {
           </div>
         )}
 
+        {/* Validation report, plus column mapping for third-party CSV layouts */}
+        <CSVImportDialog
+          file={csvToCheck?.file ?? null}
+          review={csvToCheck?.review?.report}
+          onImport={(importedFrames, name) => {
+            loadFrames(importedFrames, name, {});
+            closeCSVDialog();
+          }}
+          onLoadAsIs={() => closeCSVDialog(true)}
+          onClose={() => closeCSVDialog()}
+        />
+
         {/* Main Content */}
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-4 sm:gap-6">
           {/* 3D Visualization */}
@@ -175,13 +334,33 @@ const Index = () => {
               <div className="w-full h-full flex items-center justify-center glass-panel">
                 <div className="text-center space-y-3">
                   <div className="w-10 h-10 sm:w-12 sm:h-12 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto" />
-                  <p className="text-sm sm:text-base text-muted-foreground">Loading data...</p>
+                  <p className="text-sm sm:text-base text-muted-foreground">
+                    {loadProgress ? `Parsed ${loadProgress.toLocaleString()} rows...` : 'Loading data...'}
+                  </p>
+                  {loadProgress !== null && (
+                    <Button variant="ghost" size="sm" onClick={cancelLoading}>
+                      Cancel
+                    </Button>
+                  )}
                 </div>
               </div>
             ) : viewMode === 'avatar' ? (
-              <AvatarVisualization frame={currentFrameData} />
+              <AvatarVisualization frame={displayFrame} showNonManuals={showNonManuals} />
             ) : (
-              <HandVisualization frame={currentFrameData} showArms={showArms} />
+              <HandVisualization
+                frame={displayFrame}
+                showArms={showArms}
+                ghostFrame={previewFrames ? currentFrameData : null}
+                editing={activeTool === 'landmarks'}
+                selection={landmarkSelection}
+                onSelectionChange={setLandmarkSelection}
+                onLandmarksMoved={(delta) =>
+                  editFrames(
+                    applyLandmarkEdit(frames, { frame: currentFrame, landmarks: landmarkSelection, delta, radius: editRadius }),
+                    landmarkSelection.length === 1 ? 'Move landmark' : `Move ${landmarkSelection.length} landmarks`
+                  )
+                }
+              />
             )}
           </div>
 
@@ -203,19 +382,166 @@ const Index = () => {
               />
             )}
 
+            {activeTool === 'smoothing' && frames.length > 0 && (
+              <SmoothingPanel
+                frames={frames}
+                fps={fps}
+                onPreviewChange={setPreviewFrames}
+                onApply={(smoothed) => {
+                  editFrames(smoothed, 'Smooth jitter');
+                  setActiveTool(null);
+                  toast.success('Smoothing applied');
+                }}
+                onClose={() => setActiveTool(null)}
+              />
+            )}
+            {activeTool === 'gaps' && frames.length > 0 && (
+              <GapFillPanel
+                frames={frames}
+                fps={fps}
+                onPreviewChange={setPreviewFrames}
+                onApply={(filled) => {
+                  editFrames(filled, 'Fill tracking gaps');
+                  setActiveTool(null);
+                  toast.success('Tracking gaps filled');
+                }}
+                onSeek={setFrame}
+                onClose={() => setActiveTool(null)}
+              />
+            )}
+            {activeTool === 'resample' && frames.length > 0 && (
+              <ResamplePanel
+                frames={frames}
+                assumedFps={metadata.sourceFps ?? fps}
+                onApply={(resampled, targetFps) => {
+                  // The new rate becomes the recording's native rate for playback and export;
+                  // playback fps is kept within the slider, which starts at 5
+                  editFrames(resampled, `Resample to ${targetFps} fps`, {
+                    metadata: { ...metadata, sourceFps: targetFps },
+                    fps: Math.max(5, Math.round(targetFps)),
+                  });
+                  setActiveTool(null);
+                  toast.success(`Resampled to ${resampled.length} frames at ${targetFps} fps`);
+                }}
+                onClose={() => setActiveTool(null)}
+              />
+            )}
+            {activeTool === 'trim' && frames.length > 0 && (
+              <TrimPanel
+                frames={frames}
+                fps={fps}
+                currentFrame={currentFrame}
+                onProposalChange={setTrimProposal}
+                onApply={(trimmed) => {
+                  editFrames(trimmed, `Trim to ${trimmed.length} frames`);
+                  setActiveTool(null);
+                  toast.success(`Trimmed to ${trimmed.length} frames`);
+                }}
+                onSeek={setFrame}
+                onClose={() => setActiveTool(null)}
+              />
+            )}
+
+            {activeTool === 'segment' && frames.length > 0 && (
+              <SegmentationPanel
+                frames={frames}
+                fps={fps}
+                onProposalChange={setSegmentProposal}
+                onApply={(labelled) => {
+                  editFrames(labelled, 'Segment signs');
+                  setActiveTool(null);
+                  toast.success('Sign labels written');
+                }}
+                onSeek={setFrame}
+                onClose={() => setActiveTool(null)}
+              />
+            )}
+
+            {activeTool === 'landmarks' && frames.length > 0 && (
+              <LandmarkEditPanel
+                selection={landmarkSelection}
+                onClearSelection={() => setLandmarkSelection([])}
+                radius={editRadius}
+                onRadiusChange={setEditRadius}
+                undoLabel={undoLabel}
+                redoLabel={redoLabel}
+                onUndo={undo}
+                onRedo={redo}
+                onClose={() => setActiveTool(null)}
+              />
+            )}
+
             <AnimationControls
               isPlaying={isPlaying}
               currentFrame={currentFrame}
               totalFrames={frames.length}
               fps={fps}
+              maxFps={Math.max(30, Math.round(metadata.sourceFps ?? 0))}
               onPlayPause={togglePlay}
               onReset={reset}
               onFrameChange={setFrame}
               onFpsChange={setFps}
+              playbackMode={playbackMode}
+              canUseTimestamps={canUseTimestamps}
+              onPlaybackModeChange={setPlaybackMode}
+              playbackSpeed={playbackSpeed}
+              onPlaybackSpeedChange={setPlaybackSpeed}
               disabled={frames.length === 0}
+              trimRange={trimProposal}
+              selection={selection}
+              onSelectionChange={setSelection}
             />
 
-            <StatusPanel frame={currentFrameData} fps={fps} />
+            {frames.length > 0 && (
+              <FrameRangeToolbar
+                selection={selection}
+                currentFrame={currentFrame}
+                totalFrames={frames.length}
+                clipboardSize={clipboardSize}
+                onSelectionChange={setSelection}
+                onCopy={copySelection}
+                onCut={cutSelection}
+                onPaste={pasteFrames}
+                onDelete={deleteSelection}
+                onCrop={cropToSelection}
+                onDuplicate={duplicateSelection}
+                onReverse={reverseSelection}
+                onStretch={stretchSelection}
+                undoLabel={undoLabel}
+                redoLabel={redoLabel}
+                onUndo={undo}
+                onRedo={redo}
+              />
+            )}
+
+            {frames.length > 0 && (
+              <LabelTrack
+                runs={segmentProposal ?? labelRuns}
+                totalFrames={frames.length}
+                currentFrame={currentFrame}
+                onSeek={setFrame}
+                onChange={(edited) => editFrames(applyLabelRuns(frames, edited), 'Edit labels')}
+                proposed={segmentProposal !== null}
+              />
+            )}
+
+            {frames.length > 0 && history.length > 0 && (
+              <HistoryPanel
+                entries={history}
+                position={historyPosition}
+                truncated={historyTruncated}
+                storedBytes={historyBytes}
+                onJump={goToHistory}
+                onUndo={undo}
+                onRedo={redo}
+              />
+            )}
+
+            <StatusPanel
+              frame={currentFrameData}
+              fps={fps}
+              playbackSpeed={playbackMode === 'timestamps' ? playbackSpeed : undefined}
+            />
 
             {/* Instructions & Legend - Side by side on mobile, stacked on desktop */}
             <div className="grid grid-cols-2 lg:grid-cols-1 gap-3 sm:gap-4">
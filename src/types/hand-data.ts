@@ -2,16 +2,56 @@ export interface ArmLandmarks {
   shoulder: [number, number, number];
   elbow: [number, number, number];
   wrist: [number, number, number];
+  confidence?: [number, number, number]; // Pose visibility (0-1) for shoulder, elbow, wrist
 }
 
 export interface HandFrame {
   label: string;
+  t?: number; // Capture time in milliseconds, relative to the first recorded frame
   leftHand: [number, number, number][];
   rightHand: [number, number, number][];
+  leftConfidence?: number[]; // Per-landmark confidence (0-1); 0 means "not tracked"
+  rightConfidence?: number[];
   leftArm?: ArmLandmarks;
   rightArm?: ArmLandmarks;
+  pose?: [number, number, number][]; // Full BlazePose body, POSE_POINTS landmarks, mirrored like the hands
+  poseConfidence?: number[]; // Pose visibility (0-1) per landmark
+  face?: [number, number, number][]; // Face mesh: all points, or FACE_KEYPOINTS in that order (see faceLandmark)
+  leftInterpolated?: boolean; // Hand filled in from neighbouring frames rather than tracked
+  rightInterpolated?: boolean;
 }
 
+// Optional body tracks recorded with MediaPipe Holistic
+export const POSE_POINTS = 33;
+export const FACE_MESH_POINTS = 468;
+export const FACE_REFINED_POINTS = 478; // Mesh plus 10 iris points (refineFaceLandmarks)
+
+// Face mesh indices kept by the reduced face track: enough for head orientation,
+// eyebrows, eyes and mouth at a tenth of the full mesh's size
+export const FACE_KEYPOINTS: number[] = [
+  10, 152, 234, 454, 1, // Forehead, chin, face edges (image left/right), nose tip
+  70, 105, 107, 300, 334, 336, // Eyebrows, outer to inner
+  33, 133, 159, 145, 362, 263, 386, 374, // Eye corners and lids
+  61, 291, 0, 17, 13, 14, // Mouth corners, outer and inner lips
+  468, 473, // Iris centres (zero unless the mesh was refined)
+];
+
+// Look up a face mesh point by its mesh index, whichever face track the frame carries
+export const faceLandmark = (
+  face: [number, number, number][] | undefined,
+  meshIndex: number
+): [number, number, number] | undefined => {
+  if (!face || face.length === 0) return undefined;
+  if (face.length === FACE_KEYPOINTS.length) {
+    const index = FACE_KEYPOINTS.indexOf(meshIndex);
+    return index < 0 ? undefined : face[index];
+  }
+  return face[meshIndex];
+};
+
+// Landmarks below this confidence are treated as untracked by the renderers
+export const CONFIDENCE_THRESHOLD = 0.5;
+
 export interface RawCSVRow {
   label: string;
   [key: string]: string | number;
@@ -33,6 +73,16 @@ export interface RawCSVRow {
 //   [5, 9], [9, 13], [13, 17]
 // ];
 
+const range = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+// Face columns are named by mesh index (F_x0, F_x10, ...), so the widest column present tells the track
+const faceColumnIndices = (row: Record<string, unknown>): number[] | undefined => {
+  if (row['F_x0'] === undefined) return undefined;
+  if (row[`F_x${FACE_REFINED_POINTS - 1}`] !== undefined) return range(FACE_REFINED_POINTS);
+  if (row[`F_x${FACE_MESH_POINTS - 1}`] !== undefined) return range(FACE_MESH_POINTS);
+  return FACE_KEYPOINTS;
+};
+
 export const parseCSVRow = (row: RawCSVRow): HandFrame => {
   const leftHand: [number, number, number][] = [];
   const rightHand: [number, number, number][] = [];
@@ -49,6 +99,20 @@ export const parseCSVRow = (row: RawCSVRow): HandFrame => {
     rightHand.push([rx, ry, rz]);
   }
 
+  // Confidence columns are optional; an empty cell means the landmark was not tracked
+  const readConfidence = (prefix: 'L' | 'R'): number[] | undefined => {
+    if (row[`${prefix}_c0`] === undefined) return undefined;
+    return Array.from({ length: 21 }, (_, i) => Number(row[`${prefix}_c${i}`]) || 0);
+  };
+  const readArmConfidence = (prefix: 'LA' | 'RA'): [number, number, number] | undefined => {
+    if (row[`${prefix}_shoulder_c`] === undefined) return undefined;
+    return [
+      Number(row[`${prefix}_shoulder_c`]) || 0,
+      Number(row[`${prefix}_elbow_c`]) || 0,
+      Number(row[`${prefix}_wrist_c`]) || 0,
+    ];
+  };
+
   // Parse arm landmarks if present
   let leftArm: ArmLandmarks | undefined;
   let rightArm: ArmLandmarks | undefined;
@@ -59,6 +123,7 @@ export const parseCSVRow = (row: RawCSVRow): HandFrame => {
       shoulder: [Number(row['LA_shoulder_x']) || 0, Number(row['LA_shoulder_y']) || 0, Number(row['LA_shoulder_z']) || 0],
       elbow: [Number(row['LA_elbow_x']) || 0, Number(row['LA_elbow_y']) || 0, Number(row['LA_elbow_z']) || 0],
       wrist: [Number(row['LA_wrist_x']) || 0, Number(row['LA_wrist_y']) || 0, Number(row['LA_wrist_z']) || 0],
+      confidence: readArmConfidence('LA'),
     };
   }
 
@@ -68,15 +133,51 @@ export const parseCSVRow = (row: RawCSVRow): HandFrame => {
       shoulder: [Number(row['RA_shoulder_x']) || 0, Number(row['RA_shoulder_y']) || 0, Number(row['RA_shoulder_z']) || 0],
       elbow: [Number(row['RA_elbow_x']) || 0, Number(row['RA_elbow_y']) || 0, Number(row['RA_elbow_z']) || 0],
       wrist: [Number(row['RA_wrist_x']) || 0, Number(row['RA_wrist_y']) || 0, Number(row['RA_wrist_z']) || 0],
+      confidence: readArmConfidence('RA'),
     };
   }
 
+  // Writers pad frames without arm tracking with zeros; read those back as "no arm"
+  const isEmptyArm = (arm: ArmLandmarks) =>
+    [arm.shoulder, arm.elbow, arm.wrist].every((p) => p.every((v) => v === 0));
+  if (leftArm && isEmptyArm(leftArm)) leftArm = undefined;
+  if (rightArm && isEmptyArm(rightArm)) rightArm = undefined;
+
+  // Optional full-body and face tracks; all-zero points mean the track was lost that frame
+  const readTrack = (prefix: 'P' | 'F', indices: number[]): [number, number, number][] | undefined => {
+    const points = indices.map((i): [number, number, number] => [
+      Number(row[`${prefix}_x${i}`]) || 0,
+      Number(row[`${prefix}_y${i}`]) || 0,
+      Number(row[`${prefix}_z${i}`]) || 0,
+    ]);
+    return points.every((p) => p.every((v) => v === 0)) ? undefined : points;
+  };
+  const pose = row['P_x0'] !== undefined ? readTrack('P', range(POSE_POINTS)) : undefined;
+  const poseConfidence = pose && row['P_c0'] !== undefined
+    ? Array.from({ length: POSE_POINTS }, (_, i) => Number(row[`P_c${i}`]) || 0)
+    : undefined;
+  const faceIndices = faceColumnIndices(row);
+  const face = faceIndices ? readTrack('F', faceIndices) : undefined;
+  const readInterpolated = (prefix: 'L' | 'R') => Number(row[`${prefix}_interp`]) === 1 || undefined;
+
+  // Optional capture timestamp (ms). Legacy files have no timestamp column.
+  const timestamp = row['timestamp'];
+  const t = timestamp === undefined || timestamp === '' ? undefined : Number(timestamp);
+
   return {
     label: String(row.label),
+    t: Number.isFinite(t) ? t : undefined,
     leftHand,
     rightHand,
+    leftConfidence: readConfidence('L'),
+    rightConfidence: readConfidence('R'),
     leftArm,
     rightArm,
+    pose,
+    poseConfidence,
+    face,
+    leftInterpolated: readInterpolated('L'),
+    rightInterpolated: readInterpolated('R'),
   };
 };
 
@@ -120,23 +221,111 @@ export const HAND_CONNECTIONS: [number, number][] = [
   [0, 17], // Palm
 ];
 
-export const normalizeCoordinates = (landmarks: [number, number, number][], scale = 3): [number, number, number][] => {
+// Hand landmarks as point tuples, or a packed recording's Float32 view of the
+// same 21 × xyz values (see handView in the binary codec)
+export type HandPoints = [number, number, number][] | Float32Array;
+
+export const handPointCount = (landmarks: HandPoints) =>
+  landmarks instanceof Float32Array ? landmarks.length / 3 : landmarks.length;
+
+export const handPoint = (landmarks: HandPoints, index: number): [number, number, number] =>
+  landmarks instanceof Float32Array
+    ? [landmarks[index * 3], landmarks[index * 3 + 1], landmarks[index * 3 + 2]]
+    : landmarks[index];
+
+export const normalizeCoordinates = (landmarks: HandPoints, scale = 3): [number, number, number][] => {
   if (!landmarks || landmarks.length === 0) return [];
 
-  return landmarks.map((point) => [
-    // X: Already mirrored in CameraCapture, just center it
-    (point[0] - 0.5) * scale,
+  return Array.from({ length: handPointCount(landmarks) }, (_, i) => {
+    const point = handPoint(landmarks, i);
+    return [
+      // X: Already mirrored in CameraCapture, just center it
+      (point[0] - 0.5) * scale,
 
-    // Y: Flip so Up is Up
-    (1 - point[1] - 0.5) * scale,
+      // Y: Flip so Up is Up
+      (1 - point[1] - 0.5) * scale,
 
-    // Z: Depth (negative for Three.js depth)
-    -point[2] * scale,
-  ]);
+      // Z: Depth (negative for Three.js depth)
+      -point[2] * scale,
+    ];
+  });
 };
 
-export const isHandVisible = (landmarks: [number, number, number][] | null): boolean => {
+export const isHandVisible = (
+  landmarks: HandPoints | null,
+  confidence?: number[]
+): boolean => {
   if (!landmarks || landmarks.length === 0) return false;
+  // With a confidence channel, "tracked" no longer has to be guessed from the coordinates
+  if (confidence && confidence.length > 0) {
+    return confidence.some((c) => c >= CONFIDENCE_THRESHOLD);
+  }
   // Ignore frames where the hand is just 0,0,0
-  return landmarks.some((p) => p[0] !== 0 || p[1] !== 0);
+  for (let i = 0; i < handPointCount(landmarks); i++) {
+    const [x, y] = handPoint(landmarks, i);
+    if (x !== 0 || y !== 0) return true;
+  }
+  return false;
+};
+
+// Per-joint check; landmarks without a confidence value count as tracked (legacy data)
+export const isLandmarkConfident = (confidence: number[] | undefined, index: number): boolean => {
+  if (!confidence) return true;
+  return (confidence[index] ?? 1) >= CONFIDENCE_THRESHOLD;
+};
+
+// True when arm data exists and its shoulder/elbow were actually tracked
+export const isArmTracked = (arm?: ArmLandmarks): boolean => {
+  if (!arm) return false;
+  if (arm.confidence) {
+    return arm.confidence[0] >= CONFIDENCE_THRESHOLD && arm.confidence[1] >= CONFIDENCE_THRESHOLD;
+  }
+  return arm.shoulder.some((v) => v !== 0) && arm.elbow.some((v) => v !== 0);
+};
+
+// Mean confidence of a hand, or null when the recording has no confidence channel
+export const averageConfidence = (confidence?: number[]): number | null => {
+  if (!confidence || confidence.length === 0) return null;
+  return confidence.reduce((sum, c) => sum + c, 0) / confidence.length;
+};
+
+// True when every frame carries a capture timestamp, i.e. playback can follow real time
+export const hasTimestamps = (frames: HandFrame[]): boolean => {
+  if (frames.length < 2) return false;
+  return frames.every((f) => typeof f.t === 'number' && Number.isFinite(f.t));
+};
+
+// Mean spacing between captured frames in ms, or null for legacy files without timestamps
+export const averageFrameInterval = (frames: HandFrame[]): number | null => {
+  if (!hasTimestamps(frames)) return null;
+  const span = (frames[frames.length - 1].t as number) - (frames[0].t as number);
+  return span > 0 ? span / (frames.length - 1) : null;
+};
+
+// Frame times in seconds, from capture timestamps or evenly spaced at `fps`
+export const frameTimes = (frames: HandFrame[], fps: number): number[] => {
+  const step = 1 / fps;
+  const times: number[] = [];
+  frames.forEach((frame, i) => {
+    const t = frame.t !== undefined && Number.isFinite(frame.t) ? frame.t / 1000 : undefined;
+    const previous = times[i - 1];
+    // Repeated or missing stamps fall back to one frame step
+    times.push(previous === undefined ? t ?? 0 : t !== undefined && t > previous ? t : previous + step);
+  });
+  return times;
+};
+
+// Index of the last frame whose timestamp is <= time (frames must be sorted by t)
+export const findFrameAtTime = (frames: HandFrame[], time: number): number => {
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if ((frames[mid].t ?? 0) <= time) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return lo;
 };